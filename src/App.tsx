@@ -3,11 +3,19 @@ import { Toaster } from '@/components/ui/toaster';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter, Route, Routes } from 'react-router-dom';
+import EventAdminPage from './pages/EventAdminPage';
 import EventPage from './pages/EventPage';
 import Index from './pages/Index';
 import NotFound from './pages/NotFound';
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: 2,
+      staleTime: 30 * 1000,
+    },
+  },
+});
 
 const App = () => {
   return (
@@ -19,6 +27,7 @@ const App = () => {
           <Routes>
             <Route path='/' element={<Index />} />
             <Route path='/event/:id' element={<EventPage />} />
+            <Route path='/event/:id/admin' element={<EventAdminPage />} />
             <Route path='*' element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,72 @@
+import { CalendarPlus, ChevronDown } from 'lucide-react';
+import { Button, ButtonProps } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  CalendarMeeting,
+  buildIcsFile,
+  getGoogleCalendarUrl,
+  getOutlookCalendarUrl,
+} from '@/lib/calendar';
+import { downloadFile, toFileName } from '@/lib/download';
+
+interface AddToCalendarMenuProps {
+  meeting: CalendarMeeting;
+  variant?: ButtonProps['variant'];
+}
+
+const AddToCalendarMenu = ({
+  meeting,
+  variant = 'default',
+}: AddToCalendarMenuProps) => {
+  // Apple Calendar, desktop Outlook and most other clients open .ics files
+  // directly
+  const handleDownloadIcs = () => {
+    downloadFile(
+      toFileName(meeting.title, 'ics'),
+      buildIcsFile(meeting),
+      'text/calendar;charset=utf-8'
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} data-testid='add-to-calendar-button'>
+          <CalendarPlus className='w-4 h-4 mr-2' />
+          Add to Calendar
+          <ChevronDown className='w-4 h-4 ml-2' />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align='end'>
+        <DropdownMenuItem
+          onClick={() => window.open(getGoogleCalendarUrl(meeting), '_blank')}
+          data-testid='google-calendar-option'
+        >
+          Google Calendar
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => window.open(getOutlookCalendarUrl(meeting), '_blank')}
+          data-testid='outlook-calendar-option'
+        >
+          Outlook
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        {/* Apple Calendar has no web link; it opens the downloaded file */}
+        <DropdownMenuItem
+          onClick={handleDownloadIcs}
+          data-testid='apple-calendar-option'
+        >
+          Apple Calendar (.ics)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default AddToCalendarMenu;
@@ -1,7 +1,24 @@
-import { useState, useCallback, useRef } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
 import { format, parse } from 'date-fns';
 import Selecto, { SelectoEvents } from 'react-selecto';
+import { Eraser, MousePointerClick, Paintbrush } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatCalendarDate } from '@/lib/calendarDate';
+import {
+  EventSlot,
+  buildViewerGrid,
+  getSlotKey,
+  parseSlotKey,
+} from '@/lib/slots';
+import {
+  Availability,
+  AvailabilityValue,
+  IF_NEEDED,
+  Responses,
+  isAvailable,
+  isIfNeeded,
+} from '@/lib/availability';
 import {
   Tooltip,
   TooltipContent,
@@ -11,40 +28,112 @@ import {
 
 interface AvailabilityGridProps {
   mode?: 'specific' | 'weekly';
-  dates: string[];
+  // Every slot the event offers; other cells are shown as gaps
+  slots: EventSlot[];
+  // Zone the event's slot keys are expressed in
+  timeZone: string;
+  // Zone the rows and columns are displayed in
+  viewerTimeZone: string;
   setIsDragging: (isDragging: boolean) => void;
-  timeSlots: string[];
-  responses: Record<string, Record<string, boolean>>;
-  userAvailability: Record<string, boolean>;
-  onAvailabilityChange: (availability: Record<string, boolean>) => void;
+  responses: Responses;
+  userAvailability: Availability;
+  onAvailabilityChange: (availability: Availability) => void;
   isReadOnly?: boolean;
   hasSubmitted?: boolean;
   isScheduling?: boolean;
   scheduledSlot?: { date: string; time: string } | null;
   setScheduledSlot?: (slot: { date: string; time: string }) => void;
+  // Slots of the finalized meeting, outlined for everyone
+  highlightedKeys?: Set<string>;
+  // Slots are only shaded when all of these people can make it
+  requiredParticipants?: string[];
+  // Outlines this person's slots and fades the rest
+  focusedParticipant?: string | null;
+  // Slots someone else just changed
+  changedKeys?: Set<string>;
+  // False when the event's privacy setting hides who picked what
+  showNames?: boolean;
 }
 
+const PAINT_OPTIONS: {
+  id: string;
+  value: AvailabilityValue;
+  label: string;
+  swatch: string;
+}[] = [
+  { id: 'available', value: true, label: 'Available', swatch: 'bg-green-400' },
+  {
+    id: 'if-needed',
+    value: IF_NEEDED,
+    label: 'If needed',
+    swatch: 'bg-amber-200 bg-hatch',
+  },
+];
+
+// "auto" erases when the first cell touched already has the paint value and
+// adds otherwise, like when2meet
+type DragMode = 'auto' | 'add' | 'erase';
+
+const DRAG_MODE_OPTIONS = [
+  { value: 'auto' as DragMode, label: 'Auto', icon: MousePointerClick },
+  { value: 'add' as DragMode, label: 'Add', icon: Paintbrush },
+  { value: 'erase' as DragMode, label: 'Erase', icon: Eraser },
+];
+
+// Arrow keys as [column, row] steps
+const ARROW_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+
+// Applied to cells while a drag is in progress, before the change is committed
+const DRAG_PREVIEW_CLASSES = {
+  add: ['ring-2', 'ring-inset', 'ring-emerald-500'],
+  erase: ['opacity-40'],
+};
+
 interface TimeSlotProps {
   dateStr: string;
   timeSlot: string;
+  label: string;
   isSelected: boolean;
+  // The current user's selection is "if needed" rather than a plain yes
+  isSelectedIfNeeded?: boolean;
   count: number;
   totalParticipants: number;
   availableUsers: string[];
+  ifNeededUsers: string[];
+  missingRequiredUsers?: string[];
   isReadOnly?: boolean;
   hasSubmitted?: boolean;
+  showNames?: boolean;
+  // Keyboard focus: the one cell in the grid's tab order
+  viewerKey: string;
+  isActive: boolean;
+  // Undefined when the grid can't be edited
+  isAriaSelected?: boolean;
   className?: string;
 }
 
 const TimeSlot = ({
   dateStr,
   timeSlot,
+  label,
   isSelected,
+  isSelectedIfNeeded = false,
   count,
   totalParticipants,
   availableUsers,
+  ifNeededUsers,
+  missingRequiredUsers = [],
   isReadOnly,
   hasSubmitted,
+  showNames = true,
+  viewerKey,
+  isActive,
+  isAriaSelected,
   className,
 }: TimeSlotProps) => {
   const getHeatmapColor = (
@@ -72,44 +161,109 @@ const TimeSlot = ({
     return 'bg-gray-50 hover:bg-gray-100';
   };
 
-  const heatmapColor = getHeatmapColor(count, totalParticipants, isSelected);
+  const heatmapColor = getHeatmapColor(
+    missingRequiredUsers.length > 0 ? 0 : count,
+    totalParticipants,
+    isSelected
+  );
+  // What screen readers announce on focus, e.g. "Mon, Jun 2 at 9:00 AM. 3 of
+  // 5 available."
+  const ariaLabel = [
+    `${label}.`,
+    `${count} of ${totalParticipants} available${
+      ifNeededUsers.length ? `, ${ifNeededUsers.length} if needed` : ''
+    }.`,
+    showNames &&
+      missingRequiredUsers.length > 0 &&
+      `Can't make it: ${missingRequiredUsers.join(', ')}.`,
+    !isReadOnly &&
+      `You: ${
+        !isSelected
+          ? 'not available'
+          : isSelectedIfNeeded
+          ? 'if needed'
+          : 'available'
+      }.`,
+  ]
+    .filter(Boolean)
+    .join(' ');
   return (
     <Tooltip>
       <TooltipTrigger asChild>
         <div
+          role='gridcell'
+          tabIndex={isActive ? 0 : -1}
+          aria-label={ariaLabel}
+          aria-selected={isAriaSelected}
           className={cn(
-            'h-full cursor-pointer transition-all duration-200 border-r border-gray-200 last:border-r-0 flex items-center justify-center relative selecto-item',
+            'h-full cursor-pointer transition-all duration-200 border-r border-gray-200 last:border-r-0 flex items-center justify-center relative selecto-item focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:-outline-offset-2 focus-visible:outline-blue-700',
             heatmapColor,
-            isSelected && 'ring-2 ring-green-600 ring-inset',
+            ifNeededUsers.length > 0 &&
+              missingRequiredUsers.length === 0 &&
+              'bg-hatch',
+            isSelected &&
+              (isSelectedIfNeeded
+                ? 'ring-2 ring-amber-500 ring-inset'
+                : 'ring-2 ring-green-600 ring-inset'),
             className
           )}
           data-date={dateStr}
           data-time={timeSlot}
+          data-slot={getSlotKey(dateStr, timeSlot)}
+          data-cell={viewerKey}
         >
           {isSelected && !isReadOnly && !hasSubmitted && (
-            <div className='w-full h-full border-dashed border border-black bg-green-400 rounded'></div>
+            <div
+              className={cn(
+                'w-full h-full border-dashed border border-black rounded',
+                isSelectedIfNeeded ? 'bg-amber-200 bg-hatch' : 'bg-green-400'
+              )}
+            ></div>
           )}
         </div>
       </TooltipTrigger>
       <TooltipContent side='top' className='max-w-xs'>
         <div className='text-sm'>
-          <div className='font-medium mb-1'>
-            {dateStr} at {timeSlot}
-          </div>
-          {count > 0 ? (
+          <div className='font-medium mb-1'>{label}</div>
+          {count > 0 && (
             <div>
               <div className='text-xs text-gray-600 mb-1'>
-                {count} of {totalParticipants} available:
+                {count} of {totalParticipants} available{showNames && ':'}
               </div>
-              <div className='space-y-1'>
-                {availableUsers.map((user) => (
-                  <div key={user} className='text-xs'>
-                    • {user}
-                  </div>
-                ))}
+              {showNames && (
+                <div className='space-y-1'>
+                  {availableUsers.map((user) => (
+                    <div key={user} className='text-xs'>
+                      • {user}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {ifNeededUsers.length > 0 && (
+            <div className={cn(count > 0 && 'mt-2')}>
+              <div className='text-xs text-amber-700 mb-1'>
+                {ifNeededUsers.length} of {totalParticipants} if needed
+                {showNames && ':'}
               </div>
+              {showNames && (
+                <div className='space-y-1'>
+                  {ifNeededUsers.map((user) => (
+                    <div key={user} className='text-xs'>
+                      • {user}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
-          ) : (
+          )}
+          {showNames && missingRequiredUsers.length > 0 && (
+            <div className='mt-2 text-xs text-red-600'>
+              Can't make it: {missingRequiredUsers.join(', ')}
+            </div>
+          )}
+          {count === 0 && ifNeededUsers.length === 0 && (
             <div className='text-xs text-gray-500'>No one available</div>
           )}
         </div>
@@ -120,8 +274,9 @@ const TimeSlot = ({
 
 const AvailabilityGrid = ({
   mode = 'specific',
-  dates,
-  timeSlots,
+  slots,
+  timeZone,
+  viewerTimeZone,
   responses,
   userAvailability,
   onAvailabilityChange,
@@ -131,28 +286,85 @@ const AvailabilityGrid = ({
   isScheduling = false,
   scheduledSlot = null,
   setScheduledSlot,
+  highlightedKeys,
+  requiredParticipants = [],
+  focusedParticipant = null,
+  changedKeys,
+  showNames = true,
 }: AvailabilityGridProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const getSlotKey = (dateStr: string, timeSlot: string) =>
-    mode === 'weekly' ? `${dateStr}_${timeSlot}` : `${dateStr}_${timeSlot}`;
+  // Value applied to cells while selecting: a plain yes or "if needed"
+  const [paintValue, setPaintValue] = useState<AvailabilityValue>(true);
+  const [dragMode, setDragMode] = useState<DragMode>('auto');
+  // Whether the current drag adds or erases, decided when it starts
+  const dragActionRef = useRef<'add' | 'erase'>('add');
+  const grid = useMemo(
+    () =>
+      buildViewerGrid({
+        mode,
+        slots,
+        timeZone,
+        viewerTimeZone,
+      }),
+    [mode, slots, timeZone, viewerTimeZone]
+  );
+  // The cell in the tab order, as a viewer key; falls back to the first cell
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  // Where a Shift+arrow range started and the availability before it, so
+  // shrinking the range restores cells it no longer covers
+  const keyboardRangeRef = useRef<{
+    anchorKey: string;
+    baseAvailability: Availability;
+    action: 'add' | 'erase';
+  } | null>(null);
+  // Read out after keyboard changes, which don't move focus
+  const [announcement, setAnnouncement] = useState('');
 
   const getAvailabilityData = (dateStr: string, timeSlot: string) => {
     const slotKey = getSlotKey(dateStr, timeSlot);
     const availableUsers: string[] = [];
+    const ifNeededUsers: string[] = [];
     let count = 0;
 
     Object.entries(responses).forEach(([userName, userResponse]) => {
-      if (userResponse[slotKey]) {
+      if (isAvailable(userResponse[slotKey])) {
         count++;
         availableUsers.push(userName);
+      } else if (isIfNeeded(userResponse[slotKey])) {
+        ifNeededUsers.push(userName);
       }
     });
 
-    return { count, availableUsers };
+    // Only people shown on the grid can rule a slot out
+    const missingRequiredUsers = requiredParticipants.filter(
+      (userName) =>
+        userName in responses &&
+        !availableUsers.includes(userName) &&
+        !ifNeededUsers.includes(userName)
+    );
+
+    return { count, availableUsers, ifNeededUsers, missingRequiredUsers };
   };
 
   const getTotalParticipants = () => Object.keys(responses).length;
 
+  const handleDragStart = useCallback(
+    (e: SelectoEvents['dragStart']) => {
+      setIsDragging(true);
+      if (dragMode !== 'auto') {
+        dragActionRef.current = dragMode;
+        return;
+      }
+      // The same rule covers clicks, where the first cell is the only one
+      const target = e.inputEvent.target as HTMLElement | null;
+      const firstCell = target?.closest?.('.selecto-item') as HTMLElement;
+      const slotKey = firstCell?.dataset.slot;
+      dragActionRef.current =
+        slotKey && userAvailability[slotKey] === paintValue ? 'erase' : 'add';
+    },
+    [dragMode, paintValue, userAvailability, setIsDragging]
+  );
+
   const onSchedule = useCallback(
     (e: SelectoEvents['select']) => {
       // Scheduling mode: only allow one slot selection
@@ -167,59 +379,267 @@ const AvailabilityGrid = ({
         }
         return;
       }
+      if (isReadOnly) return;
+
+      const previewClasses = DRAG_PREVIEW_CLASSES[dragActionRef.current];
+      e.added.forEach((el) => el.classList.add(...previewClasses));
+      e.removed.forEach((el) => el.classList.remove(...previewClasses));
     },
-    [isScheduling, setScheduledSlot]
+    [isScheduling, isReadOnly, setScheduledSlot]
   );
 
   const handleSelect = useCallback(
     (e: SelectoEvents['selectEnd']) => {
+      e.selected.forEach((el) =>
+        el.classList.remove(
+          ...DRAG_PREVIEW_CLASSES.add,
+          ...DRAG_PREVIEW_CLASSES.erase
+        )
+      );
       if (isReadOnly) return;
       if (isScheduling) return;
 
       const newAvailability = { ...userAvailability };
-      // For single click selections
-      if (
-        (e.inputEvent && e.inputEvent.type === 'mouseup') ||
-        (e.inputEvent && e.inputEvent.type === 'touchend')
-      ) {
-        e.selected.forEach((el: HTMLElement) => {
-          const dateStr = el.dataset.date;
-          const timeSlot = el.dataset.time;
-          if (dateStr && timeSlot) {
-            const slotKey = getSlotKey(dateStr, timeSlot);
-            newAvailability[slotKey] = !newAvailability[slotKey];
-          }
-        });
-      } else {
-        // For drag selections
-        e.selected.forEach((el: HTMLElement) => {
-          const dateStr = el.dataset.date;
-          const timeSlot = el.dataset.time;
-          if (dateStr && timeSlot) {
-            const slotKey = getSlotKey(dateStr, timeSlot);
-            newAvailability[slotKey] = true;
-          }
-        });
-      }
+      const value = dragActionRef.current === 'erase' ? false : paintValue;
+      e.selected.forEach((el: HTMLElement) => {
+        const dateStr = el.dataset.date;
+        const timeSlot = el.dataset.time;
+        if (dateStr && timeSlot) {
+          newAvailability[getSlotKey(dateStr, timeSlot)] = value;
+        }
+      });
       onAvailabilityChange(newAvailability);
     },
     [
       isReadOnly,
       isScheduling,
-      setScheduledSlot,
       userAvailability,
       onAvailabilityChange,
-      getSlotKey,
+      paintValue,
     ]
   );
 
   const totalParticipants = getTotalParticipants();
 
+  const firstCellKey = useMemo(() => {
+    for (const row of grid.rows) {
+      for (const column of grid.columns) {
+        if (grid.cells[getSlotKey(column, row)]) return getSlotKey(column, row);
+      }
+    }
+    return null;
+  }, [grid]);
+  const currentKey =
+    activeKey && grid.cells[activeKey] ? activeKey : firstCellKey;
+
+  // The next offered cell in a direction, skipping gaps, or null at the edge
+  const findCell = (
+    fromKey: string,
+    [columnStep, rowStep]: [number, number]
+  ) => {
+    const { date: column, time: row } = parseSlotKey(fromKey);
+    let columnIndex = grid.columns.indexOf(column) + columnStep;
+    let rowIndex = grid.rows.indexOf(row) + rowStep;
+    while (
+      columnIndex >= 0 &&
+      columnIndex < grid.columns.length &&
+      rowIndex >= 0 &&
+      rowIndex < grid.rows.length
+    ) {
+      const key = getSlotKey(grid.columns[columnIndex], grid.rows[rowIndex]);
+      if (grid.cells[key]) return key;
+      columnIndex += columnStep;
+      rowIndex += rowStep;
+    }
+    return null;
+  };
+
+  // Home and End: the offered cell furthest along the row
+  const findRowEnd = (fromKey: string, step: number) => {
+    let key = fromKey;
+    for (let next = findCell(key, [step, 0]); next; ) {
+      key = next;
+      next = findCell(key, [step, 0]);
+    }
+    return key;
+  };
+
+  const focusCell = (key: string) => {
+    setActiveKey(key);
+    containerRef.current
+      ?.querySelector<HTMLElement>(`[data-cell="${key}"]`)
+      ?.focus();
+  };
+
+  const getValueLabel = (value: AvailabilityValue | undefined) =>
+    !value ? 'not available' : isIfNeeded(value) ? 'if needed' : 'available';
+
+  const getKeyboardAction = (slotKey: string) =>
+    dragMode !== 'auto'
+      ? dragMode
+      : userAvailability[slotKey] === paintValue
+      ? 'erase'
+      : 'add';
+
+  const toggleCell = (key: string) => {
+    const slot = grid.cells[key];
+    const value = getKeyboardAction(slot.key) === 'erase' ? false : paintValue;
+    onAvailabilityChange({ ...userAvailability, [slot.key]: value });
+    setAnnouncement(
+      `${getCellLabel(
+        slot.localColumn,
+        parseSlotKey(key).time
+      )} marked ${getValueLabel(value)}.`
+    );
+  };
+
+  // Shift+arrows mark every cell in the rectangle from the anchor, the way a
+  // drag does
+  const extendRange = (fromKey: string, toKey: string) => {
+    if (!keyboardRangeRef.current) {
+      keyboardRangeRef.current = {
+        anchorKey: fromKey,
+        baseAvailability: userAvailability,
+        action: getKeyboardAction(grid.cells[fromKey].key),
+      };
+    }
+    const { anchorKey, baseAvailability, action } = keyboardRangeRef.current;
+    const anchor = parseSlotKey(anchorKey);
+    const target = parseSlotKey(toKey);
+    const columnIndexes = [anchor.date, target.date].map((column) =>
+      grid.columns.indexOf(column)
+    );
+    const rowIndexes = [anchor.time, target.time].map((row) =>
+      grid.rows.indexOf(row)
+    );
+    const value = action === 'erase' ? false : paintValue;
+    const newAvailability = { ...baseAvailability };
+    let cellCount = 0;
+    for (
+      let rowIndex = Math.min(...rowIndexes);
+      rowIndex <= Math.max(...rowIndexes);
+      rowIndex++
+    ) {
+      for (
+        let columnIndex = Math.min(...columnIndexes);
+        columnIndex <= Math.max(...columnIndexes);
+        columnIndex++
+      ) {
+        const slot =
+          grid.cells[
+            getSlotKey(grid.columns[columnIndex], grid.rows[rowIndex])
+          ];
+        if (slot) {
+          newAvailability[slot.key] = value;
+          cellCount++;
+        }
+      }
+    }
+    onAvailabilityChange(newAvailability);
+    setAnnouncement(
+      `${cellCount} ${
+        cellCount === 1 ? 'slot' : 'slots'
+      } marked ${getValueLabel(value)}.`
+    );
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!currentKey) return;
+    const canEdit = !isReadOnly && !isScheduling;
+
+    if (e.key in ARROW_STEPS) {
+      e.preventDefault();
+      const nextKey = findCell(currentKey, ARROW_STEPS[e.key]);
+      if (!nextKey) return;
+      if (e.shiftKey && canEdit) {
+        extendRange(currentKey, nextKey);
+      } else {
+        keyboardRangeRef.current = null;
+      }
+      focusCell(nextKey);
+      return;
+    }
+    if (e.key === 'Home' || e.key === 'End') {
+      e.preventDefault();
+      keyboardRangeRef.current = null;
+      focusCell(findRowEnd(currentKey, e.key === 'Home' ? -1 : 1));
+      return;
+    }
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      keyboardRangeRef.current = null;
+      const slot = grid.cells[currentKey];
+      if (isScheduling && setScheduledSlot) {
+        setScheduledSlot({ date: slot.date, time: slot.time });
+        setAnnouncement(
+          `${getCellLabel(
+            slot.localColumn,
+            parseSlotKey(currentKey).time
+          )} picked for the meeting.`
+        );
+      } else if (canEdit) {
+        toggleCell(currentKey);
+      }
+    }
+  };
+
   // Helper for weekly mode: abbreviate day name
   const getDayAbbr = (day: string) => day.slice(0, 3);
 
+  const getCellLabel = (column: string, row: string) => {
+    const day =
+      mode === 'weekly' ? column : formatCalendarDate(column, 'EEE, MMM d');
+    return `${day} at ${format(parse(row, 'HH:mm', new Date()), 'h:mm a')}`;
+  };
+
   return (
     <TooltipProvider>
+      {!isReadOnly && !isScheduling && (
+        <div className='flex flex-wrap items-center gap-2 mb-4'>
+          <span className='text-sm font-medium'>Mark as:</span>
+          <div className='flex gap-0.5'>
+            {PAINT_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                type='button'
+                className={cn(
+                  'flex items-center gap-2 px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-none first:rounded-l last:rounded-r focus:outline-none',
+                  paintValue === option.value
+                    ? 'bg-emerald-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                )}
+                onClick={() => setPaintValue(option.value)}
+                aria-pressed={paintValue === option.value}
+                data-testid={`paint-${option.id}`}
+              >
+                <span className={cn('w-3 h-3 rounded', option.swatch)} />
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <span className='text-sm font-medium ml-4'>Drag to:</span>
+          <div className='flex gap-0.5'>
+            {DRAG_MODE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type='button'
+                className={cn(
+                  'flex items-center gap-2 px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-none first:rounded-l last:rounded-r focus:outline-none',
+                  dragMode === option.value
+                    ? 'bg-emerald-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                )}
+                onClick={() => setDragMode(option.value)}
+                aria-pressed={dragMode === option.value}
+                data-testid={`drag-mode-${option.value}`}
+              >
+                <option.icon className='w-3 h-3' />
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
       <div className='overflow-x-auto bg-white' ref={containerRef}>
         <Selecto
           container={containerRef.current}
@@ -233,86 +653,155 @@ const AvailabilityGrid = ({
           onSelectEnd={(e) => {
             handleSelect(e);
           }}
-          onDragStart={() => {
-            setIsDragging(true);
-          }}
+          onDragStart={handleDragStart}
           onDragEnd={() => {
             setIsDragging(false);
           }}
         />
-        <div className='border border-gray-200 rounded-lg min-w-[350px] sm:min-w-0'>
+        <div
+          role='grid'
+          aria-label={
+            isScheduling
+              ? 'Pick the meeting time'
+              : isReadOnly
+              ? "Everyone's availability"
+              : 'Your availability'
+          }
+          aria-readonly={isReadOnly && !isScheduling}
+          aria-multiselectable={!isReadOnly && !isScheduling}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => {
+            if (e.key === 'Shift') keyboardRangeRef.current = null;
+          }}
+          onFocus={(e) => {
+            // Clicked cells take focus too, so arrows continue from there
+            const key = (e.target as HTMLElement).dataset.cell;
+            if (key) setActiveKey(key);
+          }}
+          className='border border-gray-200 rounded-lg min-w-[350px] sm:min-w-0'
+        >
           {/* Header Row */}
           <div
+            role='row'
             className='grid border-b border-gray-200'
             style={{
-              gridTemplateColumns: `100px repeat(${dates.length}, 1fr)`,
+              gridTemplateColumns: `100px repeat(${grid.columns.length}, 1fr)`,
             }}
           >
-            <div className='p-4 bg-gray-50 border-r border-gray-200'></div>
-            {dates.map((dateStr, index) => (
+            <div
+              role='columnheader'
+              aria-label='Time'
+              className='p-4 bg-gray-50 border-r border-gray-200'
+            ></div>
+            {grid.columns.map((dateStr, index) => (
               <div
                 key={index}
+                role='columnheader'
                 className='p-4 text-center bg-gray-50 border-r border-gray-200 last:border-r-0'
               >
                 <div className='font-medium text-gray-900'>
                   {mode === 'weekly'
                     ? getDayAbbr(dateStr)
-                    : format(new Date(dateStr), 'MMM d')}
+                    : formatCalendarDate(dateStr, 'MMM d')}
                 </div>
                 <div className='text-sm text-gray-600'>
                   {mode === 'weekly'
                     ? dateStr
-                    : format(new Date(dateStr), 'EEE')}
+                    : formatCalendarDate(dateStr, 'EEE')}
                 </div>
               </div>
             ))}
           </div>
 
           {/* Time Slots */}
-          {timeSlots.map((timeSlot, timeIndex) => (
+          {grid.rows.map((timeSlot, timeIndex) => (
             <div
               key={timeSlot}
+              role='row'
               className={cn(
                 'grid border-b border-gray-200 last:border-b-0',
                 timeIndex % 2 === 0 ? 'bg-gray-25' : 'bg-white'
               )}
               style={{
-                gridTemplateColumns: `100px repeat(${dates.length}, 1fr)`,
+                gridTemplateColumns: `100px repeat(${grid.columns.length}, 1fr)`,
               }}
             >
               {/* Time Label */}
-              <div className='px-2 py-1 text-sm font-medium text-gray-700 bg-gray-50 border-r border-gray-200 flex items-center'>
+              <div
+                role='rowheader'
+                className='px-2 py-1 text-sm font-medium text-gray-700 bg-gray-50 border-r border-gray-200 flex items-center'
+              >
                 {format(parse(timeSlot, 'HH:mm', new Date()), 'h:mm a')}
               </div>
 
               {/* Date Slots */}
-              {dates.map((dateStr, dateIndex) => {
-                const slotKey = getSlotKey(dateStr, timeSlot);
-                const isUserSelected = userAvailability[slotKey];
-                const { count, availableUsers } = getAvailabilityData(
-                  dateStr,
-                  timeSlot
-                );
+              {grid.columns.map((column) => {
+                const slot = grid.cells[getSlotKey(column, timeSlot)];
+                // The event has no slot here, either outside this day's
+                // windows or once shifted into the viewer's zone
+                if (!slot) {
+                  return (
+                    <div
+                      key={getSlotKey(column, timeSlot)}
+                      role='gridcell'
+                      aria-disabled={true}
+                      aria-label='Not offered'
+                      className='min-h-[40px] min-w-[40px] bg-gray-100 border-r border-gray-200 last:border-r-0'
+                    />
+                  );
+                }
+                const slotKey = slot.key;
+                const viewerKey = getSlotKey(column, timeSlot);
+                const isUserSelected = !!userAvailability[slotKey];
+                const {
+                  count,
+                  availableUsers,
+                  ifNeededUsers,
+                  missingRequiredUsers,
+                } = getAvailabilityData(slot.date, slot.time);
                 // Scheduling mode: highlight if this is the scheduled slot
                 const isScheduled =
-                  isScheduling &&
-                  scheduledSlot &&
-                  scheduledSlot.date === dateStr &&
-                  scheduledSlot.time === timeSlot;
+                  (isScheduling &&
+                    scheduledSlot &&
+                    scheduledSlot.date === slot.date &&
+                    scheduledSlot.time === slot.time) ||
+                  (!isScheduling && highlightedKeys?.has(slotKey));
+                const focusedValue =
+                  focusedParticipant &&
+                  responses[focusedParticipant]?.[slotKey];
                 return (
                   <TimeSlot
                     key={slotKey}
-                    dateStr={dateStr}
-                    timeSlot={timeSlot}
+                    dateStr={slot.date}
+                    timeSlot={slot.time}
+                    label={getCellLabel(slot.localColumn, timeSlot)}
                     isSelected={isUserSelected}
+                    isSelectedIfNeeded={isIfNeeded(userAvailability[slotKey])}
                     count={count}
                     totalParticipants={totalParticipants}
                     availableUsers={availableUsers}
+                    ifNeededUsers={ifNeededUsers}
+                    missingRequiredUsers={missingRequiredUsers}
                     isReadOnly={isReadOnly}
                     hasSubmitted={hasSubmitted}
+                    showNames={showNames}
+                    viewerKey={viewerKey}
+                    isActive={viewerKey === currentKey}
+                    isAriaSelected={
+                      isScheduling
+                        ? !!isScheduled
+                        : isReadOnly
+                        ? undefined
+                        : isUserSelected
+                    }
                     className={cn(
                       'min-h-[40px] min-w-[40px] touch-manipulation',
-                      isScheduled && 'ring-2 ring-blue-500 ring-inset z-10'
+                      isScheduled && 'ring-2 ring-blue-500 ring-inset z-10',
+                      changedKeys?.has(slotKey) && 'animate-slot-flash',
+                      focusedParticipant &&
+                        (focusedValue
+                          ? 'ring-2 ring-purple-500 ring-inset z-10'
+                          : 'opacity-40')
                     )}
                   />
                 );
@@ -320,6 +809,9 @@ const AvailabilityGrid = ({
             </div>
           ))}
         </div>
+        <div aria-live='polite' className='sr-only'>
+          {announcement}
+        </div>
 
         {/* Legend */}
         <div className='mt-6 p-4 bg-gray-50 rounded-lg'>
@@ -329,6 +821,10 @@ const AvailabilityGrid = ({
               <div className='w-4 h-4 bg-green-600 border-2 border-dashed border-green-800 rounded'></div>
               <span>Your selection (dashed border)</span>
             </div>
+            <div className='flex items-center gap-3'>
+              <div className='w-4 h-4 bg-amber-200 bg-hatch rounded'></div>
+              <span>If needed (hatched)</span>
+            </div>
             <div className='flex items-center gap-3'>
               <div className='w-4 h-4 bg-green-500 rounded'></div>
               <span>High availability (many people available)</span>
@@ -337,7 +833,19 @@ const AvailabilityGrid = ({
               <div className='w-4 h-4 bg-green-200 rounded'></div>
               <span>Low availability (few people available)</span>
             </div>
+            <div className='flex items-center gap-3'>
+              <div className='w-4 h-4 bg-gray-100 border border-gray-200 rounded'></div>
+              <span>Not offered</span>
+            </div>
           </div>
+          <p className='mt-3 text-xs text-gray-600'>
+            Keyboard: arrow keys move between slots
+            {isScheduling
+              ? ' and Space picks the meeting time.'
+              : isReadOnly
+              ? '.'
+              : ', Space marks one and Shift+arrows mark a range.'}
+          </p>
         </div>
       </div>
     </TooltipProvider>
@@ -0,0 +1,130 @@
+import { format, parse } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { MeetingWindow, getAttendeeCount } from '@/lib/bestWindows';
+import { DAY_NAMES, EventMode, getSlotStart } from '@/lib/slots';
+import { formatCalendarDate } from '@/lib/calendarDate';
+import { formatInTimeZone } from '@/lib/timezone';
+
+interface BestWindowsProps {
+  windows: MeetingWindow[];
+  participantCount: number;
+  hasRequiredParticipants?: boolean;
+  durationMinutes: number;
+  mode: EventMode;
+  timeZone: string;
+  viewerTimeZone: string;
+  // False when the event's privacy setting hides who picked what
+  showNames?: boolean;
+  onSelect: (meetingWindow: MeetingWindow) => void;
+}
+
+const formatTime = (time: string) =>
+  format(parse(time, 'HH:mm', new Date()), 'h:mm a');
+
+const BestWindows = ({
+  windows,
+  participantCount,
+  hasRequiredParticipants = false,
+  durationMinutes,
+  mode,
+  timeZone,
+  viewerTimeZone,
+  showNames = true,
+  onSelect,
+}: BestWindowsProps) => {
+  if (participantCount === 0) {
+    return (
+      <p className='text-sm text-gray-500'>
+        Best times will appear once people respond.
+      </p>
+    );
+  }
+
+  if (windows.length === 0) {
+    return (
+      <p className='text-sm text-gray-500'>
+        {hasRequiredParticipants
+          ? 'No time of this length works for every required participant.'
+          : 'No time fits a meeting this long yet.'}
+      </p>
+    );
+  }
+
+  return (
+    <ol className='space-y-2' data-testid='best-windows'>
+      {windows.map((meetingWindow, index) => {
+        const start = getSlotStart(
+          meetingWindow.date,
+          meetingWindow.time,
+          mode,
+          timeZone
+        );
+        const end = new Date(start.getTime() + durationMinutes * 60000);
+        const localStart = formatInTimeZone(start, viewerTimeZone);
+        const localEnd = formatInTimeZone(end, viewerTimeZone);
+        const dayLabel =
+          mode === 'weekly'
+            ? DAY_NAMES[localStart.weekday]
+            : formatCalendarDate(localStart.date, 'EEE, MMM d');
+        const notAttending = [
+          ...meetingWindow.partial,
+          ...meetingWindow.missing,
+        ];
+
+        return (
+          <li
+            key={`${meetingWindow.date}_${meetingWindow.time}`}
+            className='flex items-start justify-between gap-4 p-3 rounded-lg border'
+            data-testid={`best-window-${index}`}
+          >
+            <div className='space-y-1 text-sm'>
+              <div className='font-medium'>
+                {dayLabel}, {formatTime(localStart.time)} –{' '}
+                {formatTime(localEnd.time)}
+              </div>
+              <div className='flex flex-wrap gap-1'>
+                <Badge>
+                  {getAttendeeCount(meetingWindow)}/{participantCount} can
+                  attend
+                </Badge>
+                {meetingWindow.ifNeeded.length > 0 && (
+                  <Badge variant='outline'>
+                    {meetingWindow.ifNeeded.length} if needed
+                  </Badge>
+                )}
+                {meetingWindow.partial.length > 0 && (
+                  <Badge variant='outline'>
+                    {meetingWindow.partial.length} partly free
+                  </Badge>
+                )}
+              </div>
+              {showNames && notAttending.length > 0 && (
+                <div className='text-gray-500'>
+                  Missing:{' '}
+                  {notAttending
+                    .map((userName) =>
+                      meetingWindow.partial.includes(userName)
+                        ? `${userName} (partly)`
+                        : userName
+                    )
+                    .join(', ')}
+                </div>
+              )}
+            </div>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => onSelect(meetingWindow)}
+              data-testid={`pick-best-window-${index}`}
+            >
+              Pick
+            </Button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default BestWindows;
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { CalendarArrowDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { Availability } from '@/lib/availability';
+import { EventMode, EventSlot } from '@/lib/slots';
+import {
+  BusyTime,
+  getAvailabilityFromBusyTimes,
+  getSlotsRange,
+  parseBusyTimes,
+} from '@/lib/icsImport';
+
+interface CalendarImportDialogProps {
+  slots: EventSlot[];
+  mode: EventMode;
+  timeZone: string;
+  slotMinutes: number;
+  // Zone for calendar entries that don't name one, like all-day events
+  viewerTimeZone: string;
+  onImport: (availability: Availability) => void;
+}
+
+interface ImportPreview {
+  busyTimes: BusyTime[];
+  availability: Availability;
+}
+
+// Prefills the grid from an .ics export. Nothing is submitted: the imported
+// times replace the current selection so they can be reviewed first.
+const CalendarImportDialog = ({
+  slots,
+  mode,
+  timeZone,
+  slotMinutes,
+  viewerTimeZone,
+  onImport,
+}: CalendarImportDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [calendarText, setCalendarText] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setCalendarText('');
+      setPreview(null);
+      setError(null);
+    }
+  };
+
+  const handleTextChange = (text: string) => {
+    setCalendarText(text);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleTextChange(await file.text());
+  };
+
+  const handleCheck = () => {
+    try {
+      const busyTimes = parseBusyTimes(calendarText, {
+        ...getSlotsRange(slots, mode, timeZone, slotMinutes),
+        defaultTimeZone: viewerTimeZone,
+      });
+      setPreview({
+        busyTimes,
+        availability: getAvailabilityFromBusyTimes({
+          slots,
+          busyTimes,
+          mode,
+          timeZone,
+          slotMinutes,
+        }),
+      });
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'The calendar could not be read.'
+      );
+    }
+  };
+
+  const handleApply = () => {
+    if (!preview) return;
+    onImport(preview.availability);
+    handleOpenChange(false);
+  };
+
+  const freeCount = preview
+    ? Object.values(preview.availability).filter(Boolean).length
+    : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant='outline'
+          size='sm'
+          disabled={!slots.length}
+          data-testid='import-calendar-button'
+        >
+          <CalendarArrowDown className='w-4 h-4 mr-2' />
+          Import from calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className='sm:max-w-lg'>
+        <DialogHeader>
+          <DialogTitle>Import busy times</DialogTitle>
+          <DialogDescription>
+            Export your calendar as an .ics file (Google Calendar, Outlook and
+            Apple Calendar can all do this). Times you're busy are left unmarked
+            and everything else is marked available.
+            {mode === 'weekly' &&
+              " This week's events stand in for every week."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className='space-y-4'>
+          <div className='space-y-2'>
+            <Label htmlFor='calendar-file'>Upload a file</Label>
+            <Input
+              id='calendar-file'
+              type='file'
+              accept='.ics,text/calendar'
+              onChange={handleFileChange}
+              data-testid='calendar-file-input'
+            />
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='calendar-text'>Or paste its contents</Label>
+            <Textarea
+              id='calendar-text'
+              value={calendarText}
+              onChange={(e) => handleTextChange(e.target.value)}
+              placeholder='BEGIN:VCALENDAR...'
+              className='font-mono text-xs h-32'
+              data-testid='calendar-text-input'
+            />
+          </div>
+          {error && <p className='text-sm text-red-500'>{error}</p>}
+          {preview && (
+            <div
+              className='p-3 rounded-lg bg-gray-50 text-sm space-y-1'
+              data-testid='calendar-import-preview'
+            >
+              <div>
+                {preview.busyTimes.length} busy{' '}
+                {preview.busyTimes.length === 1 ? 'time' : 'times'} during this
+                poll. {freeCount} of {slots.length} slots will be marked
+                available.
+              </div>
+              <div className='text-gray-600'>
+                This replaces what you've marked so far. You can still adjust
+                the grid before submitting.
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          {preview ? (
+            <Button onClick={handleApply} data-testid='apply-calendar-import'>
+              Use these times
+            </Button>
+          ) : (
+            <Button
+              onClick={handleCheck}
+              disabled={!calendarText.trim()}
+              data-testid='check-calendar-import'
+            >
+              Read calendar
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarImportDialog;
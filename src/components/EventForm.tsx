@@ -0,0 +1,542 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon, Clock, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import TimeWindowsEditor from '@/components/TimeWindowsEditor';
+import RecurrenceFields from '@/components/RecurrenceFields';
+import TimeZoneSelector from '@/components/TimeZoneSelector';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  formatCalendarDate,
+  fromCalendarDate,
+  getToday,
+  toCalendarDate,
+} from '@/lib/calendarDate';
+import { Recurrence, getRecurrenceError } from '@/lib/recurrence';
+import {
+  DEFAULT_PRIVACY,
+  PRIVACY_OPTIONS,
+  ResultsPrivacy,
+} from '@/lib/privacy';
+import { getBrowserTimeZone } from '@/lib/timezone';
+import {
+  DAY_NAMES,
+  DEFAULT_SLOT_MINUTES,
+  EventMode,
+  SLOT_MINUTE_OPTIONS,
+  getNextColumn,
+  snapTimeToStep,
+} from '@/lib/slots';
+import {
+  EventInput,
+  TimeRange,
+  getEventWindows,
+  getTimeWindowsError,
+} from '@/lib/events';
+
+const DAYS_OF_WEEK = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+];
+
+interface EventFormProps {
+  initialValues?: EventInput;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (event: EventInput) => void;
+}
+
+const EventForm = ({
+  initialValues,
+  submitLabel,
+  isSubmitting = false,
+  onSubmit,
+}: EventFormProps) => {
+  const [eventName, setEventName] = useState(initialValues?.name || '');
+  const [selectedDates, setSelectedDates] = useState<Date[]>(
+    () => initialValues?.dates?.map(fromCalendarDate) || []
+  );
+  const [eventNameError, setEventNameError] = useState<string | null>(null);
+
+  const [selectedDaysOfWeek, setSelectedDaysOfWeek] = useState<number[]>(
+    initialValues?.days_of_week || []
+  );
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(
+    initialValues?.recurrence || null
+  );
+  const [timeWindows, setTimeWindows] = useState<TimeRange[]>(() =>
+    initialValues
+      ? getEventWindows(initialValues)
+      : [{ start: '09:00', end: '17:00' }]
+  );
+  // Keyed by grid column, like slot keys
+  const [windowOverrides, setWindowOverrides] = useState<
+    Record<string, TimeRange[]>
+  >(initialValues?.window_overrides || {});
+  const [timeZone, setTimeZone] = useState(
+    initialValues?.timezone || getBrowserTimeZone
+  );
+  const [slotMinutes, setSlotMinutes] = useState(
+    initialValues?.slot_minutes || DEFAULT_SLOT_MINUTES
+  );
+  const [privacy, setPrivacy] = useState<ResultsPrivacy>(
+    initialValues?.privacy || DEFAULT_PRIVACY
+  );
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [dateSelectionMode, setDateSelectionMode] = useState<EventMode>(
+    initialValues?.mode || 'specific'
+  );
+
+  const handleEventNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.trim();
+    if (value.length > 250) {
+      setEventNameError('Event name cannot exceed 250 characters');
+    } else {
+      setEventNameError(null);
+    }
+    setEventName(e.target.value);
+  };
+
+  const handleDayOfWeekToggle = (dayValue: number) => {
+    setSelectedDaysOfWeek((prev) => {
+      if (prev.includes(dayValue)) {
+        return prev.filter((d) => d !== dayValue);
+      } else {
+        return [...prev, dayValue];
+      }
+    });
+  };
+
+  const handleSlotMinutesChange = (minutes: number) => {
+    setSlotMinutes(minutes);
+    // Keep the chosen ranges on the new grid so they stay selectable
+    const snapWindows = (windows: TimeRange[]) =>
+      windows.map((timeRange) => ({
+        start: snapTimeToStep(timeRange.start, minutes),
+        end: snapTimeToStep(timeRange.end, minutes),
+      }));
+    setTimeWindows(snapWindows);
+    setWindowOverrides((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([column, windows]) => [
+          column,
+          snapWindows(windows),
+        ])
+      )
+    );
+  };
+
+  // Grid columns for the current selection, as stored on the event
+  const getSelectedColumns = () =>
+    dateSelectionMode === 'specific'
+      ? selectedDates.map(toCalendarDate).sort()
+      : [...selectedDaysOfWeek].sort().map((day) => DAY_NAMES[day]);
+
+  const getColumnLabel = (column: string) =>
+    dateSelectionMode === 'specific'
+      ? formatCalendarDate(column, 'EEE, MMM d')
+      : column;
+
+  const handleAddOverride = (column: string) => {
+    setWindowOverrides((prev) => ({ ...prev, [column]: timeWindows }));
+  };
+
+  const handleOverrideChange = (column: string, windows: TimeRange[]) => {
+    setWindowOverrides((prev) => ({ ...prev, [column]: windows }));
+  };
+
+  const handleRemoveOverride = (column: string) => {
+    setWindowOverrides((prev) => {
+      const { [column]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Past dates can't be added, but ones already on the event stay selectable
+  // so they can be removed when editing
+  const isDateDisabled = (date: Date) =>
+    toCalendarDate(date) < getToday() &&
+    !initialValues?.dates?.includes(toCalendarDate(date));
+
+  const handleSubmit = () => {
+    if (eventNameError) {
+      toast({
+        title: 'Event name required',
+        description: eventNameError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!eventName.trim()) {
+      toast({
+        title: 'Event name required',
+        description: 'Please enter a name for your event.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    let dates: string[] = [];
+    const mode: EventMode = dateSelectionMode;
+    let daysOfWeek: number[] = [];
+
+    if (dateSelectionMode === 'specific') {
+      if (selectedDates.length === 0) {
+        toast({
+          title: 'Dates required',
+          description: 'Please select at least one date for your event.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      dates = getSelectedColumns();
+    } else {
+      if (selectedDaysOfWeek.length === 0) {
+        toast({
+          title: 'Days required',
+          description: 'Please select at least one day of the week.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      daysOfWeek = selectedDaysOfWeek;
+
+      const recurrenceError = recurrence && getRecurrenceError(recurrence);
+      if (recurrenceError) {
+        toast({
+          title: 'Check the date range',
+          description: recurrenceError,
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
+    // Overrides for dates or days that were deselected are dropped
+    const overrides = Object.fromEntries(
+      getSelectedColumns()
+        .filter((column) => windowOverrides[column])
+        .map((column) => [column, windowOverrides[column]])
+    );
+
+    // Each day is also checked against the next one when the poll offers it
+    const columns = getSelectedColumns();
+    const getWindows = (column: string) => overrides[column] || timeWindows;
+    const timeWindowsError =
+      getTimeWindowsError(timeWindows, slotMinutes) ||
+      columns
+        .map((column) => {
+          const nextColumn = getNextColumn(column);
+          const error = getTimeWindowsError(
+            getWindows(column),
+            slotMinutes,
+            columns.includes(nextColumn) ? getWindows(nextColumn) : []
+          );
+          return error && `${getColumnLabel(column)}: ${error}`;
+        })
+        .find(Boolean);
+    if (timeWindowsError) {
+      toast({
+        title: 'Check the time range',
+        description: timeWindowsError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    onSubmit({
+      name: eventName,
+      mode,
+      dates,
+      days_of_week: daysOfWeek,
+      recurrence: mode === 'weekly' ? recurrence : null,
+      time_range: timeWindows[0],
+      time_windows: timeWindows.length > 1 ? timeWindows : null,
+      window_overrides: Object.keys(overrides).length ? overrides : null,
+      timezone: timeZone,
+      slot_minutes: slotMinutes,
+      privacy,
+    });
+  };
+
+  const selectedColumns = getSelectedColumns();
+
+  return (
+    <div className='space-y-6'>
+      {/* Event Name */}
+      <div className='space-y-2'>
+        <Label htmlFor='eventName'>Event Name</Label>
+        <Input
+          id='eventName'
+          placeholder='Team Meeting, Birthday Party, etc.'
+          value={eventName}
+          onChange={handleEventNameChange}
+          className='text-lg'
+          data-testid='event-name-input'
+        />
+        {eventNameError && (
+          <p className='text-sm text-red-500'>{eventNameError}</p>
+        )}
+      </div>
+
+      {/* Date Selection */}
+      <div className='space-y-2'>
+        <Label>Select Dates</Label>
+        <Tabs
+          value={dateSelectionMode}
+          className='w-full'
+          onValueChange={(value) => setDateSelectionMode(value as EventMode)}
+          data-testid='date-selection-tabs'
+        >
+          <TabsList className='grid w-full grid-cols-2'>
+            <TabsTrigger value='specific' data-testid='tab-specific'>
+              Specific Dates
+            </TabsTrigger>
+            <TabsTrigger value='weekly' data-testid='tab-weekly'>
+              Days of Week
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value='specific'>
+            <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+              <PopoverTrigger asChild>
+                <Button
+                  variant='outline'
+                  className={cn(
+                    'w-full justify-start text-left font-normal h-auto py-3',
+                    !selectedDates.length && 'text-muted-foreground'
+                  )}
+                  data-testid='open-calendar-button'
+                >
+                  <CalendarIcon className='mr-2 h-4 w-4' />
+                  {selectedDates.length > 0 ? (
+                    <div className='flex flex-wrap gap-1'>
+                      {selectedDates.slice(0, 3).map((date, i) => (
+                        <span
+                          key={i}
+                          className='bg-blue-100 text-blue-800 px-2 py-1 rounded text-sm'
+                        >
+                          {format(date, 'MMM d')}
+                        </span>
+                      ))}
+                      {selectedDates.length > 3 && (
+                        <span className='text-sm text-gray-500'>
+                          +{selectedDates.length - 3} more
+                        </span>
+                      )}
+                    </div>
+                  ) : (
+                    <span>Pick your dates</span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className='w-auto p-0' align='start'>
+                <Calendar
+                  mode='multiple'
+                  selected={selectedDates}
+                  onSelect={(dates) => {
+                    if (dates) {
+                      setSelectedDates(dates);
+                    }
+                  }}
+                  className='pointer-events-auto'
+                  disabled={isDateDisabled}
+                />
+              </PopoverContent>
+            </Popover>
+            {selectedDates.length > 0 && (
+              <p className='text-sm text-gray-600'>
+                {selectedDates.length} date
+                {selectedDates.length !== 1 ? 's' : ''} selected
+              </p>
+            )}
+          </TabsContent>
+          <TabsContent value='weekly'>
+            <div className='flex justify-center gap-0.5 my-2'>
+              {DAYS_OF_WEEK.map((day) => (
+                <button
+                  key={day.value}
+                  type='button'
+                  className={cn(
+                    'px-4 mt-4 py-2 border border-gray-300 text-sm font-medium rounded-none first:rounded-l last:rounded-r focus:outline-none',
+                    selectedDaysOfWeek.includes(day.value)
+                      ? 'bg-emerald-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  )}
+                  onClick={() => handleDayOfWeekToggle(day.value)}
+                  aria-pressed={selectedDaysOfWeek.includes(day.value)}
+                  data-testid={`day-toggle-${day.label.toLowerCase()}`}
+                >
+                  {day.label.slice(0, 3)}
+                </button>
+              ))}
+            </div>
+            <RecurrenceFields
+              value={recurrence}
+              onChange={setRecurrence}
+              daysOfWeek={selectedDaysOfWeek}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {/* Time Range */}
+      <div className='space-y-2'>
+        <Label className='flex items-center gap-2'>
+          <Clock className='w-4 h-4' />
+          Time Range
+        </Label>
+        <TimeWindowsEditor
+          windows={timeWindows}
+          onChange={setTimeWindows}
+          step={slotMinutes}
+        />
+        <TimeZoneSelector value={timeZone} onChange={setTimeZone} />
+      </div>
+
+      {/* Per-day Time Ranges */}
+      {selectedColumns.length > 0 && (
+        <div className='space-y-2'>
+          <Label>Different hours on some days</Label>
+          {selectedColumns
+            .filter((column) => windowOverrides[column])
+            .map((column) => (
+              <div
+                key={column}
+                className='space-y-2 rounded-lg border border-gray-200 p-3'
+                data-testid={`window-override-${column}`}
+              >
+                <div className='flex items-center justify-between'>
+                  <span className='text-sm font-medium'>
+                    {getColumnLabel(column)}
+                  </span>
+                  <Button
+                    type='button'
+                    variant='ghost'
+                    size='icon'
+                    onClick={() => handleRemoveOverride(column)}
+                    aria-label={`Use the usual hours on ${getColumnLabel(
+                      column
+                    )}`}
+                  >
+                    <X className='w-4 h-4' />
+                  </Button>
+                </div>
+                <TimeWindowsEditor
+                  windows={windowOverrides[column]}
+                  onChange={(windows) => handleOverrideChange(column, windows)}
+                  step={slotMinutes}
+                />
+              </div>
+            ))}
+          {selectedColumns.some((column) => !windowOverrides[column]) && (
+            <Select value='' onValueChange={handleAddOverride}>
+              <SelectTrigger data-testid='add-override-select'>
+                <SelectValue
+                  placeholder={
+                    dateSelectionMode === 'specific'
+                      ? 'Pick a date with different hours'
+                      : 'Pick a day with different hours'
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedColumns
+                  .filter((column) => !windowOverrides[column])
+                  .map((column) => (
+                    <SelectItem key={column} value={column}>
+                      {getColumnLabel(column)}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      {/* Slot Length */}
+      <div className='space-y-2'>
+        <Label>Slot Length</Label>
+        <div className='flex gap-0.5'>
+          {SLOT_MINUTE_OPTIONS.map((minutes) => (
+            <button
+              key={minutes}
+              type='button'
+              className={cn(
+                'flex-1 px-4 py-2 border border-gray-300 text-sm font-medium rounded-none first:rounded-l last:rounded-r focus:outline-none',
+                slotMinutes === minutes
+                  ? 'bg-emerald-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              )}
+              onClick={() => handleSlotMinutesChange(minutes)}
+              aria-pressed={slotMinutes === minutes}
+              data-testid={`slot-minutes-${minutes}`}
+            >
+              {minutes === 60 ? '1 hour' : `${minutes} min`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Privacy */}
+      <div className='space-y-2'>
+        <Label htmlFor='privacy'>Who sees names</Label>
+        <Select
+          value={privacy}
+          onValueChange={(value) => setPrivacy(value as ResultsPrivacy)}
+        >
+          <SelectTrigger id='privacy' data-testid='privacy-select'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRIVACY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className='text-sm text-gray-500'>
+          {
+            PRIVACY_OPTIONS.find((option) => option.value === privacy)
+              ?.description
+          }
+        </p>
+      </div>
+
+      {/* Submit Button */}
+      <Button
+        onClick={handleSubmit}
+        disabled={isSubmitting}
+        className='w-full text-lg py-6 bg-gradient-to-r from-emerald-600 to-emerald-700 hover:from-emerald-700 hover:to-emerald-800 transition-all duration-300 shadow-lg hover:shadow-xl'
+        data-testid='create-event-button'
+      >
+        {submitLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default EventForm;
@@ -0,0 +1,84 @@
+import { ChevronDown, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { EventRecord } from '@/lib/events';
+import type { Responses } from '@/lib/availability';
+import { downloadFile, toFileName } from '@/lib/download';
+import {
+  buildResponsesCsv,
+  buildResultsJson,
+  buildSlotSummaryCsv,
+} from '@/lib/resultsExport';
+
+interface ExportResultsMenuProps {
+  event: EventRecord;
+  responses: Responses;
+  // Null leaves them out of the JSON export
+  requiredParticipants: string[] | null;
+}
+
+// Excel only reads CSV files as UTF-8 when they start with a byte order mark
+const CSV_BOM = '\uFEFF';
+
+const ExportResultsMenu = ({
+  event,
+  responses,
+  requiredParticipants,
+}: ExportResultsMenuProps) => {
+  const downloadCsv = (suffix: string, content: string) => {
+    downloadFile(
+      toFileName(`${event.name} ${suffix}`, 'csv'),
+      CSV_BOM + content,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant='outline' data-testid='export-results-button'>
+          <Download className='w-4 h-4 mr-2' />
+          Export
+          <ChevronDown className='w-4 h-4 ml-2' />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align='end'>
+        <DropdownMenuItem
+          onClick={() =>
+            downloadCsv('responses', buildResponsesCsv(event, responses))
+          }
+          data-testid='export-responses-csv'
+        >
+          Responses (CSV)
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() =>
+            downloadCsv('summary', buildSlotSummaryCsv(event, responses))
+          }
+          data-testid='export-summary-csv'
+        >
+          Summary per time slot (CSV)
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() =>
+            downloadFile(
+              toFileName(event.name, 'json'),
+              buildResultsJson(event, responses, requiredParticipants),
+              'application/json'
+            )
+          }
+          data-testid='export-results-json'
+        >
+          Everything (JSON)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportResultsMenu;
@@ -0,0 +1,110 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+
+interface ParticipantFilterProps {
+  participants: string[];
+  // Unchecked names; anyone new who responds is shown by default
+  excluded: string[];
+  onExcludedChange: (excluded: string[]) => void;
+  hoveredParticipant: string | null;
+  onHoveredParticipantChange: (userName: string | null) => void;
+  isOverlapOnly: boolean;
+  onOverlapOnlyChange: (isOverlapOnly: boolean) => void;
+}
+
+const ParticipantFilter = ({
+  participants,
+  excluded,
+  onExcludedChange,
+  hoveredParticipant,
+  onHoveredParticipantChange,
+  isOverlapOnly,
+  onOverlapOnlyChange,
+}: ParticipantFilterProps) => {
+  const includedCount = participants.filter(
+    (userName) => !excluded.includes(userName)
+  ).length;
+
+  const toggleParticipant = (userName: string, isIncluded: boolean) => {
+    onExcludedChange(
+      isIncluded
+        ? excluded.filter((name) => name !== userName)
+        : [...excluded, userName]
+    );
+  };
+
+  return (
+    <div className='space-y-3' data-testid='participant-filter'>
+      <div className='flex items-center justify-between'>
+        <span className='text-sm font-medium'>
+          Participants ({includedCount}/{participants.length})
+        </span>
+        <div className='flex gap-2 text-xs'>
+          <button
+            type='button'
+            className='text-blue-600 hover:underline'
+            onClick={() => onExcludedChange([])}
+            data-testid='include-all-participants'
+          >
+            All
+          </button>
+          <button
+            type='button'
+            className='text-blue-600 hover:underline'
+            onClick={() => onExcludedChange(participants)}
+            data-testid='exclude-all-participants'
+          >
+            None
+          </button>
+        </div>
+      </div>
+      <ul
+        className='space-y-1'
+        onMouseLeave={() => onHoveredParticipantChange(null)}
+      >
+        {participants.map((userName) => (
+          <li
+            key={userName}
+            className={cn(
+              'flex items-center gap-2 px-2 py-1 rounded text-sm',
+              hoveredParticipant === userName && 'bg-purple-50'
+            )}
+            onMouseEnter={() => onHoveredParticipantChange(userName)}
+          >
+            <Checkbox
+              id={`participant-${userName}`}
+              checked={!excluded.includes(userName)}
+              onCheckedChange={(checked) =>
+                toggleParticipant(userName, checked === true)
+              }
+              data-testid={`participant-checkbox-${userName}`}
+            />
+            <label
+              htmlFor={`participant-${userName}`}
+              className='truncate cursor-pointer'
+            >
+              {userName}
+            </label>
+          </li>
+        ))}
+      </ul>
+      <p className='text-xs text-gray-500'>
+        Hover a name to highlight their availability.
+      </p>
+      <div className='flex items-center gap-2'>
+        <Switch
+          id='overlap-only'
+          checked={isOverlapOnly}
+          onCheckedChange={onOverlapOnlyChange}
+          data-testid='overlap-only-switch'
+        />
+        <label htmlFor='overlap-only' className='text-sm cursor-pointer'>
+          Only times all {includedCount} overlap
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantFilter;
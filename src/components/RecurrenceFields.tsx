@@ -0,0 +1,266 @@
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import {
+  CalendarDate,
+  addCalendarDays,
+  formatCalendarDate,
+  fromCalendarDate,
+  getToday,
+  toCalendarDate,
+} from '@/lib/calendarDate';
+import { REPEAT_INTERVAL_OPTIONS, Recurrence } from '@/lib/recurrence';
+
+type EndMode = 'never' | 'date' | 'count';
+
+const END_MODE_OPTIONS: { value: EndMode; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'date', label: 'On a date' },
+  { value: 'count', label: 'After a number of meetings' },
+];
+
+interface RecurrenceFieldsProps {
+  value: Recurrence | null;
+  onChange: (recurrence: Recurrence | null) => void;
+  // Selected days, 0 = Sunday; only these can be skipped
+  daysOfWeek: number[];
+}
+
+const DateField = ({
+  value,
+  onChange,
+  testId,
+}: {
+  value: CalendarDate;
+  onChange: (date: CalendarDate) => void;
+  testId: string;
+}) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button
+        type='button'
+        variant='outline'
+        className='w-full justify-start text-left font-normal'
+        data-testid={testId}
+      >
+        <CalendarIcon className='mr-2 h-4 w-4' />
+        {formatCalendarDate(value, 'MMM d, yyyy')}
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className='w-auto p-0' align='start'>
+      <Calendar
+        mode='single'
+        selected={fromCalendarDate(value)}
+        defaultMonth={fromCalendarDate(value)}
+        onSelect={(date) => {
+          if (date) onChange(toCalendarDate(date));
+        }}
+        className='pointer-events-auto'
+      />
+    </PopoverContent>
+  </Popover>
+);
+
+// Optional date range, interval and skipped dates for a weekly poll
+const RecurrenceFields = ({
+  value,
+  onChange,
+  daysOfWeek,
+}: RecurrenceFieldsProps) => {
+  const handleToggle = (checked: boolean) => {
+    onChange(
+      checked
+        ? {
+            start_date: getToday(),
+            interval: 1,
+            end_date: null,
+            count: null,
+            excluded_dates: [],
+          }
+        : null
+    );
+  };
+
+  if (!value) {
+    return (
+      <div className='flex items-center gap-2 mt-4'>
+        <Switch
+          id='has-recurrence'
+          checked={false}
+          onCheckedChange={handleToggle}
+          data-testid='recurrence-switch'
+        />
+        <label htmlFor='has-recurrence' className='text-sm cursor-pointer'>
+          Only between certain dates
+        </label>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<Recurrence>) =>
+    onChange({ ...value, ...changes });
+
+  const endMode: EndMode = value.end_date
+    ? 'date'
+    : value.count !== null && value.count !== undefined
+    ? 'count'
+    : 'never';
+
+  const handleEndModeChange = (mode: EndMode) => {
+    update({
+      // About a semester by default
+      end_date:
+        mode === 'date' ? addCalendarDays(value.start_date, 7 * 15) : null,
+      count: mode === 'count' ? 10 : null,
+    });
+  };
+
+  const excludedDates = value.excluded_dates || [];
+
+  // Only days a meeting could fall on can be skipped
+  const isSkippable = (date: Date) => {
+    const calendarDate = toCalendarDate(date);
+    return (
+      daysOfWeek.includes(date.getDay()) &&
+      calendarDate >= value.start_date &&
+      (!value.end_date || calendarDate <= value.end_date)
+    );
+  };
+
+  return (
+    <div className='space-y-4 mt-4'>
+      <div className='flex items-center gap-2'>
+        <Switch
+          id='has-recurrence'
+          checked={true}
+          onCheckedChange={handleToggle}
+          data-testid='recurrence-switch'
+        />
+        <label htmlFor='has-recurrence' className='text-sm cursor-pointer'>
+          Only between certain dates
+        </label>
+      </div>
+
+      <div className='grid grid-cols-2 gap-4'>
+        <div className='space-y-2'>
+          <Label className='text-sm font-medium'>Starts</Label>
+          <DateField
+            value={value.start_date}
+            onChange={(start_date) => update({ start_date })}
+            testId='recurrence-start'
+          />
+        </div>
+        <div className='space-y-2'>
+          <Label className='text-sm font-medium'>Repeats</Label>
+          <Select
+            value={String(value.interval)}
+            onValueChange={(interval) => update({ interval: Number(interval) })}
+          >
+            <SelectTrigger data-testid='recurrence-interval'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPEAT_INTERVAL_OPTIONS.map((interval) => (
+                <SelectItem key={interval} value={String(interval)}>
+                  {interval === 1 ? 'Every week' : `Every ${interval} weeks`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className='grid grid-cols-2 gap-4'>
+        <div className='space-y-2'>
+          <Label className='text-sm font-medium'>Ends</Label>
+          <Select value={endMode} onValueChange={handleEndModeChange}>
+            <SelectTrigger data-testid='recurrence-end-mode'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {END_MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className='space-y-2 self-end'>
+          {endMode === 'date' && (
+            <DateField
+              value={value.end_date}
+              onChange={(end_date) => update({ end_date })}
+              testId='recurrence-end'
+            />
+          )}
+          {endMode === 'count' && (
+            <Input
+              type='number'
+              min={1}
+              value={value.count ?? ''}
+              onChange={(e) => update({ count: Number(e.target.value) })}
+              aria-label='Number of meetings'
+              data-testid='recurrence-count'
+            />
+          )}
+        </div>
+      </div>
+
+      <div className='space-y-2'>
+        <Label className='text-sm font-medium'>Skip dates</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type='button'
+              variant='outline'
+              className={cn(
+                'w-full justify-start text-left font-normal h-auto py-2',
+                !excludedDates.length && 'text-muted-foreground'
+              )}
+              data-testid='recurrence-skip'
+            >
+              <CalendarIcon className='mr-2 h-4 w-4' />
+              {excludedDates.length > 0
+                ? [...excludedDates]
+                    .sort()
+                    .map((date) => formatCalendarDate(date, 'MMM d'))
+                    .join(', ')
+                : 'Holidays, breaks, ...'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className='w-auto p-0' align='start'>
+            <Calendar
+              mode='multiple'
+              selected={excludedDates.map(fromCalendarDate)}
+              defaultMonth={fromCalendarDate(value.start_date)}
+              onSelect={(dates) =>
+                update({ excluded_dates: (dates || []).map(toCalendarDate) })
+              }
+              disabled={(date) => !isSkippable(date)}
+              className='pointer-events-auto'
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,82 @@
+import { format, parse } from 'date-fns';
+import { CalendarCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import AddToCalendarMenu from '@/components/AddToCalendarMenu';
+import type { CalendarMeeting } from '@/lib/calendar';
+import { DAY_NAMES, EventMode, getSlotStart } from '@/lib/slots';
+import { formatCalendarDate } from '@/lib/calendarDate';
+import { formatRecurrence } from '@/lib/recurrence';
+import { formatInTimeZone, formatTimeZoneLabel } from '@/lib/timezone';
+import type { FinalSlot } from '@/lib/events';
+
+interface ScheduledBannerProps {
+  finalSlot: FinalSlot;
+  mode: EventMode;
+  timeZone: string;
+  viewerTimeZone: string;
+  isOrganizer?: boolean;
+  calendarMeeting: CalendarMeeting;
+  onReopen?: () => void;
+}
+
+const formatTime = (time: string) =>
+  format(parse(time, 'HH:mm', new Date()), 'h:mm a');
+
+const ScheduledBanner = ({
+  finalSlot,
+  mode,
+  timeZone,
+  viewerTimeZone,
+  isOrganizer = false,
+  calendarMeeting,
+  onReopen,
+}: ScheduledBannerProps) => {
+  const start = getSlotStart(finalSlot.date, finalSlot.time, mode, timeZone);
+  const end = new Date(start.getTime() + finalSlot.duration_minutes * 60000);
+  const localStart = formatInTimeZone(start, viewerTimeZone);
+  const localEnd = formatInTimeZone(end, viewerTimeZone);
+
+  const dayLabel =
+    mode === 'weekly'
+      ? `Every ${DAY_NAMES[localStart.weekday]}`
+      : formatCalendarDate(localStart.date, 'EEEE, MMMM d, yyyy');
+
+  return (
+    <div
+      className='mb-8 p-4 rounded-lg border border-blue-200 bg-blue-50 flex flex-wrap items-center justify-between gap-4'
+      data-testid='scheduled-banner'
+    >
+      <div className='flex items-center gap-3'>
+        <CalendarCheck className='w-6 h-6 text-blue-600 shrink-0' />
+        <div>
+          <div className='font-semibold text-blue-900'>
+            Scheduled for {dayLabel}, {formatTime(localStart.time)} –{' '}
+            {formatTime(localEnd.time)}
+          </div>
+          {mode === 'weekly' && calendarMeeting.recurrence && (
+            <div className='text-sm text-blue-700'>
+              Repeats {formatRecurrence(calendarMeeting.recurrence)}
+            </div>
+          )}
+          <div className='text-sm text-blue-700'>
+            {formatTimeZoneLabel(viewerTimeZone)}
+          </div>
+        </div>
+      </div>
+      <div className='flex gap-2'>
+        <AddToCalendarMenu meeting={calendarMeeting} />
+        {isOrganizer && onReopen && (
+          <Button
+            variant='outline'
+            onClick={onReopen}
+            data-testid='reopen-poll-button'
+          >
+            Reopen Poll
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduledBanner;
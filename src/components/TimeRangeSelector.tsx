@@ -6,22 +6,26 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { isOvernightRange } from '@/lib/slots';
 
 interface TimeRangeSelectorProps {
   startTime: string;
   endTime: string;
   onTimeChange: (timeRange: { start: string; end: string }) => void;
+  // Minutes between selectable times, matching the event's slot length
+  step?: number;
 }
 
 const TimeRangeSelector = ({
   startTime,
   endTime,
   onTimeChange,
+  step = 30,
 }: TimeRangeSelectorProps) => {
   const generateTimeOptions = () => {
     const times = [];
     for (let hour = 0; hour < 24; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
+      for (let minute = 0; minute < 60; minute += step) {
         const timeString = `${hour.toString().padStart(2, '0')}:${minute
           .toString()
           .padStart(2, '0')}`;
@@ -82,6 +86,9 @@ const TimeRangeSelector = ({
               ))}
             </SelectContent>
           </Select>
+          {isOvernightRange({ start: startTime, end: endTime }) && (
+            <p className='text-xs text-gray-500'>Ends the next day</p>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,75 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import TimeRangeSelector from '@/components/TimeRangeSelector';
+import { addMinutesToTime } from '@/lib/slots';
+import type { TimeRange } from '@/lib/events';
+
+interface TimeWindowsEditorProps {
+  windows: TimeRange[];
+  onChange: (windows: TimeRange[]) => void;
+  // Minutes between selectable times, matching the event's slot length
+  step?: number;
+}
+
+// One or more time ranges offered on the same day, e.g. mornings and
+// afternoons with a lunch break between them
+const TimeWindowsEditor = ({
+  windows,
+  onChange,
+  step = 30,
+}: TimeWindowsEditorProps) => {
+  const handleWindowChange = (index: number, timeRange: TimeRange) => {
+    onChange(windows.map((w, i) => (i === index ? timeRange : w)));
+  };
+
+  const handleRemoveWindow = (index: number) => {
+    onChange(windows.filter((_, i) => i !== index));
+  };
+
+  // The new window starts an hour after the last one ends
+  const handleAddWindow = () => {
+    const start = addMinutesToTime(windows[windows.length - 1].end, 60);
+    onChange([...windows, { start, end: addMinutesToTime(start, 120) }]);
+  };
+
+  return (
+    <div className='space-y-3'>
+      {windows.map((timeRange, index) => (
+        <div key={index} className='flex items-end gap-2'>
+          <div className='flex-1'>
+            <TimeRangeSelector
+              startTime={timeRange.start}
+              endTime={timeRange.end}
+              onTimeChange={(value) => handleWindowChange(index, value)}
+              step={step}
+            />
+          </div>
+          {windows.length > 1 && (
+            <Button
+              type='button'
+              variant='ghost'
+              size='icon'
+              onClick={() => handleRemoveWindow(index)}
+              aria-label='Remove time window'
+              data-testid={`remove-window-${index}`}
+            >
+              <X className='w-4 h-4' />
+            </Button>
+          )}
+        </div>
+      ))}
+      <Button
+        type='button'
+        variant='outline'
+        size='sm'
+        onClick={handleAddWindow}
+        data-testid='add-window-button'
+      >
+        <Plus className='w-4 h-4 mr-2' />
+        Add another window
+      </Button>
+    </div>
+  );
+};
+
+export default TimeWindowsEditor;
@@ -0,0 +1,48 @@
+import { useMemo } from 'react';
+import { Globe } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatTimeZoneLabel, getTimeZoneOptions } from '@/lib/timezone';
+
+interface TimeZoneSelectorProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+  className?: string;
+}
+
+const TimeZoneSelector = ({
+  value,
+  onChange,
+  className,
+}: TimeZoneSelectorProps) => {
+  const timeZoneOptions = useMemo(() => {
+    const zones = getTimeZoneOptions();
+    return (zones.includes(value) ? zones : [value, ...zones]).map((zone) => ({
+      value: zone,
+      label: formatTimeZoneLabel(zone),
+    }));
+  }, [value]);
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className} data-testid='time-zone-select'>
+        <Globe className='w-4 h-4 mr-2 shrink-0' />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {timeZoneOptions.map((zone) => (
+          <SelectItem key={zone.value} value={zone.value}>
+            {zone.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TimeZoneSelector;
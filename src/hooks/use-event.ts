@@ -0,0 +1,127 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import type { EventInput, EventRecord } from '@/lib/events';
+import type { Responses } from '@/lib/availability';
+import {
+  VoteAccess,
+  VoteInput,
+  createEvent,
+  getAdminEvent,
+  getEvent,
+  listRequiredParticipants,
+  listVotes,
+  updateEvent,
+  upsertVote,
+} from '@/lib/repository';
+
+export const eventKeys = {
+  event: (id: string) => ['event', id] as const,
+  adminEvent: (id: string, adminToken: string) =>
+    ['event', id, 'admin', adminToken] as const,
+  // What the database returns depends on the tokens sent; leave `access` out
+  // to match every variant
+  votes: (id: string, access?: VoteAccess) =>
+    access
+      ? ([
+          'votes',
+          id,
+          access.adminToken || null,
+          access.editToken || null,
+        ] as const)
+      : (['votes', id] as const),
+  // Under the votes key so it refetches whenever the responses do
+  requiredParticipants: (id: string, access: VoteAccess = {}) =>
+    [...eventKeys.votes(id, access), 'required'] as const,
+};
+
+export const useEvent = (id: string | undefined) =>
+  useQuery({
+    queryKey: eventKeys.event(id),
+    queryFn: () => getEvent(id),
+    enabled: !!id,
+  });
+
+export const useAdminEvent = (
+  id: string | undefined,
+  adminToken: string | null
+) =>
+  useQuery({
+    queryKey: eventKeys.adminEvent(id, adminToken),
+    queryFn: () => getAdminEvent(id, adminToken),
+    enabled: !!id && !!adminToken,
+  });
+
+// Keeps showing the last responses while refetching with new tokens, e.g.
+// right after the first submission
+export const useVotes = (id: string | undefined, access: VoteAccess = {}) =>
+  useQuery({
+    queryKey: eventKeys.votes(id, access),
+    queryFn: () => listVotes(id, access),
+    enabled: !!id,
+    placeholderData: keepPreviousData,
+  });
+
+export const useRequiredParticipants = (
+  id: string | undefined,
+  access: VoteAccess = {}
+) =>
+  useQuery({
+    queryKey: eventKeys.requiredParticipants(id, access),
+    queryFn: () => listRequiredParticipants(id, access),
+    enabled: !!id,
+    placeholderData: keepPreviousData,
+  });
+
+export const useCreateEvent = () =>
+  useMutation({
+    mutationFn: ({
+      event,
+      adminToken,
+    }: {
+      event: EventInput;
+      adminToken: string;
+    }) => createEvent(event, adminToken),
+  });
+
+export const useUpdateEvent = (id: string, adminToken: string | null) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (changes: Partial<EventInput>) =>
+      updateEvent(id, adminToken, changes),
+    onSuccess: (event: EventRecord) => {
+      queryClient.setQueryData(eventKeys.event(id), event);
+      queryClient.setQueryData(eventKeys.adminEvent(id, adminToken), event);
+      // A new privacy setting changes which names come back
+      queryClient.invalidateQueries({ queryKey: eventKeys.votes(id) });
+    },
+  });
+};
+
+// The response shows up on the grid immediately and is rolled back if the
+// save fails
+export const useSubmitVote = (id: string, access: VoteAccess = {}) => {
+  const queryClient = useQueryClient();
+  const votesKey = eventKeys.votes(id, access);
+  return useMutation({
+    mutationFn: (vote: Omit<VoteInput, 'eventId'>) =>
+      upsertVote({ ...vote, eventId: id }),
+    onMutate: async (vote) => {
+      await queryClient.cancelQueries({ queryKey: eventKeys.votes(id) });
+      const previous = queryClient.getQueryData<Responses>(votesKey);
+      queryClient.setQueryData<Responses>(votesKey, (responses = {}) => ({
+        ...responses,
+        [vote.userName]: vote.availability,
+      }));
+      return { previous };
+    },
+    onError: (_error, _vote, context) => {
+      queryClient.setQueryData(votesKey, context?.previous);
+    },
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: eventKeys.votes(id) }),
+  });
+};
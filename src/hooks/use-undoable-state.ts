@@ -0,0 +1,77 @@
+import { Reducer, useCallback, useReducer } from 'react';
+
+// Older edits are dropped once this many can be undone
+const HISTORY_LIMIT = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; value: T }
+  | { type: 'reset'; value: T }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const historyReducer = <T>(
+  state: History<T>,
+  action: HistoryAction<T>
+): History<T> => {
+  switch (action.type) {
+    case 'set':
+      if (action.value === state.present) return state;
+      return {
+        past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+        present: action.value,
+        future: [],
+      };
+    case 'reset':
+      return { past: [], present: action.value, future: [] };
+    case 'undo':
+      if (!state.past.length) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+      };
+    case 'redo':
+      if (!state.future.length) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+      };
+  }
+};
+
+// useState with undo and redo. setValue records a step; resetValue replaces
+// the value and forgets the history, e.g. when loading saved data.
+export const useUndoableState = <T>(initialValue: T) => {
+  const [history, dispatch] = useReducer<Reducer<History<T>, HistoryAction<T>>>(
+    historyReducer,
+    { past: [], present: initialValue, future: [] }
+  );
+
+  const setValue = useCallback(
+    (value: T) => dispatch({ type: 'set', value }),
+    []
+  );
+  const resetValue = useCallback(
+    (value: T) => dispatch({ type: 'reset', value }),
+    []
+  );
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    value: history.present,
+    setValue,
+    resetValue,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,16 @@
+// Values stored in votes.availability. `true` means available; older votes
+// may also contain `false` for slots that were toggled off.
+export const IF_NEEDED = 'if_needed';
+
+export type AvailabilityValue = boolean | typeof IF_NEEDED;
+export type Availability = Record<string, AvailabilityValue>;
+export type Responses = Record<string, Availability>;
+
+// "If needed" counts for less than a plain yes when ranking slots
+export const IF_NEEDED_WEIGHT = 0.5;
+
+export const isAvailable = (value: AvailabilityValue | undefined) =>
+  value === true;
+
+export const isIfNeeded = (value: AvailabilityValue | undefined) =>
+  value === IF_NEEDED;
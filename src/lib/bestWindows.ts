@@ -0,0 +1,153 @@
+import {
+  IF_NEEDED_WEIGHT,
+  Responses,
+  isAvailable,
+  isIfNeeded,
+} from '@/lib/availability';
+import { EventSlot, addMinutesToTime } from '@/lib/slots';
+
+export interface MeetingWindow {
+  date: string;
+  time: string;
+  // Can make the whole window with plain yeses
+  available: string[];
+  // Can make the whole window, but only thanks to "if needed" slots
+  ifNeeded: string[];
+  // Free for part of the window
+  partial: string[];
+  // Not free at any point during the window
+  missing: string[];
+}
+
+export const getAttendeeCount = (meetingWindow: MeetingWindow) =>
+  meetingWindow.available.length + meetingWindow.ifNeeded.length;
+
+// Full attendance, with "if needed" weighted lower than a plain yes
+const getAttendanceScore = (meetingWindow: MeetingWindow) =>
+  meetingWindow.available.length +
+  meetingWindow.ifNeeded.length * IF_NEEDED_WEIGHT;
+
+// Best attendance score first, then partial attendance, then fewest "if
+// needed". Required people attend every candidate, so optional ones break
+// the ties.
+const compareWindows = (a: MeetingWindow, b: MeetingWindow) =>
+  getAttendanceScore(b) - getAttendanceScore(a) ||
+  b.partial.length - a.partial.length ||
+  a.ifNeeded.length - b.ifNeeded.length;
+
+interface Candidate {
+  meetingWindow: MeetingWindow;
+  keys: string[];
+}
+
+const overlaps = (a: Candidate, b: Candidate) =>
+  a.keys.some((key) => b.keys.includes(key));
+
+// Length of the longest run of consecutive slots in any column, i.e. the
+// longest meeting the event can hold
+export const getLongestRunMinutes = (
+  slots: EventSlot[],
+  slotMinutes: number
+) => {
+  let longest = 0;
+  let current = 0;
+  slots.forEach((slot, index) => {
+    const previous = slots[index - 1];
+    current =
+      previous &&
+      previous.column === slot.column &&
+      addMinutesToTime(previous.time, slotMinutes) === slot.time
+        ? current + 1
+        : 1;
+    longest = Math.max(longest, current);
+  });
+  return longest * slotMinutes;
+};
+
+// Every run of consecutive slots long enough to hold the meeting, scored by
+// who can attend, keeping only the best non-overlapping windows
+export const findBestWindows = ({
+  slots,
+  slotMinutes,
+  durationMinutes,
+  responses,
+  required = [],
+  limit = 5,
+}: {
+  // Every slot the event offers, in order within each column
+  slots: EventSlot[];
+  slotMinutes: number;
+  durationMinutes: number;
+  responses: Responses;
+  // Windows missing any of these people are left out entirely
+  required?: string[];
+  limit?: number;
+}) => {
+  const slotCount = Math.max(1, Math.ceil(durationMinutes / slotMinutes));
+  const participants = Object.keys(responses);
+  const candidates: Candidate[] = [];
+  const columns = new Map<string, EventSlot[]>();
+  for (const slot of slots) {
+    columns.set(slot.column, [...(columns.get(slot.column) || []), slot]);
+  }
+
+  for (const columnSlots of columns.values()) {
+    for (let i = 0; i + slotCount <= columnSlots.length; i++) {
+      const run = columnSlots.slice(i, i + slotCount);
+      // Skip runs that jump over a gap in the schedule
+      const isContiguous = run.every(
+        (slot, index) =>
+          index === 0 ||
+          addMinutesToTime(run[index - 1].time, slotMinutes) === slot.time
+      );
+      if (!isContiguous) continue;
+
+      // Starts after midnight belong to the next day, like the slot itself
+      const meetingWindow: MeetingWindow = {
+        date: run[0].date,
+        time: run[0].time,
+        available: [],
+        ifNeeded: [],
+        partial: [],
+        missing: [],
+      };
+      for (const userName of participants) {
+        const values = run.map((slot) => responses[userName][slot.key]);
+        const yesCount = values.filter(isAvailable).length;
+        const ifNeededCount = values.filter(isIfNeeded).length;
+        if (yesCount === slotCount) {
+          meetingWindow.available.push(userName);
+        } else if (yesCount + ifNeededCount === slotCount) {
+          meetingWindow.ifNeeded.push(userName);
+        } else if (yesCount + ifNeededCount > 0) {
+          meetingWindow.partial.push(userName);
+        } else {
+          meetingWindow.missing.push(userName);
+        }
+      }
+      const isMissingRequired = required.some(
+        (userName) =>
+          !meetingWindow.available.includes(userName) &&
+          !meetingWindow.ifNeeded.includes(userName)
+      );
+      if (isMissingRequired) continue;
+      if (getAttendeeCount(meetingWindow) + meetingWindow.partial.length > 0) {
+        candidates.push({
+          meetingWindow,
+          keys: run.map((slot) => slot.key),
+        });
+      }
+    }
+  }
+
+  // Sorting is stable, so ties stay in grid order
+  candidates.sort((a, b) => compareWindows(a.meetingWindow, b.meetingWindow));
+
+  const best: Candidate[] = [];
+  for (const candidate of candidates) {
+    if (best.length >= limit) break;
+    if (best.some((picked) => overlaps(picked, candidate))) continue;
+    best.push(candidate);
+  }
+  return best.map((candidate) => candidate.meetingWindow);
+};
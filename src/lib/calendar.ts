@@ -0,0 +1,340 @@
+import { DAY_NAMES, EventMode } from '@/lib/slots';
+import { CalendarDate, addCalendarDays } from '@/lib/calendarDate';
+import {
+  Recurrence,
+  getFirstOccurrence,
+  getSkippedDates,
+} from '@/lib/recurrence';
+import {
+  formatInTimeZone,
+  formatTimeZoneOffset,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+} from '@/lib/timezone';
+
+export interface CalendarMeeting {
+  uid: string;
+  title: string;
+  url: string;
+  mode: EventMode;
+  timeZone: string;
+  // ISO date for specific-date events, day name for weekly ones
+  date: string;
+  time: string;
+  durationMinutes: number;
+  // Weekly meetings only; without one they repeat forever
+  recurrence?: Recurrence | null;
+  // The poll day the meeting was picked on, when it starts after midnight
+  // and `date` is the day after it
+  column?: string;
+}
+
+// Recurrence dates are picked on the poll's days, so a meeting that starts
+// after midnight happens the day after each of them
+const toMeetingDate = (meeting: CalendarMeeting, date: CalendarDate) =>
+  meeting.column && meeting.column !== meeting.date
+    ? addCalendarDays(date, 1)
+    : date;
+
+const getFirstMeetingDate = (
+  meeting: CalendarMeeting,
+  recurrence: Recurrence
+) =>
+  toMeetingDate(
+    meeting,
+    getFirstOccurrence(recurrence, meeting.column || meeting.date)
+  );
+
+// Weekly meetings start on the first occurrence of their day in the poll's
+// date range, or else on the next one from today in the event's zone
+export const getMeetingStart = (meeting: CalendarMeeting, now = new Date()) => {
+  if (meeting.mode !== 'weekly') {
+    return zonedTimeToUtc(meeting.date, meeting.time, meeting.timeZone);
+  }
+  if (meeting.recurrence) {
+    return zonedTimeToUtc(
+      getFirstMeetingDate(meeting, meeting.recurrence),
+      meeting.time,
+      meeting.timeZone
+    );
+  }
+  const today = formatInTimeZone(now, meeting.timeZone);
+  const dayIndex = DAY_NAMES.indexOf(meeting.date);
+  const daysUntilNext = (dayIndex - today.weekday + 7) % 7;
+  return zonedTimeToUtc(
+    addCalendarDays(today.date, daysUntilNext),
+    meeting.time,
+    meeting.timeZone
+  );
+};
+
+export const getMeetingEnd = (meeting: CalendarMeeting, start: Date) =>
+  new Date(start.getTime() + meeting.durationMinutes * 60000);
+
+// 20250602T020000Z
+const formatUtcStamp = (instant: Date) =>
+  instant.toISOString().replace(/-|:|\.\d+/g, '');
+
+const getWeeklyRule = (meeting: CalendarMeeting) => {
+  const { recurrence } = meeting;
+  const parts = ['FREQ=WEEKLY'];
+  if (recurrence && recurrence.interval > 1) {
+    parts.push(`INTERVAL=${recurrence.interval}`);
+  }
+  parts.push(`BYDAY=${meeting.date.slice(0, 2).toUpperCase()}`);
+  // UNTIL is inclusive and must be in UTC when DTSTART has a zone
+  if (recurrence?.end_date) {
+    const lastStart = zonedTimeToUtc(
+      toMeetingDate(meeting, recurrence.end_date),
+      meeting.time,
+      meeting.timeZone
+    );
+    parts.push(`UNTIL=${formatUtcStamp(lastStart)}`);
+  } else if (recurrence?.count) {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+  return parts.join(';');
+};
+
+const getDescription = (meeting: CalendarMeeting) =>
+  `Scheduled with SchedMeet: ${meeting.url}`;
+
+// 20250602T090000, wall-clock time in the given zone
+const formatLocalStamp = (instant: Date, timeZone: string) => {
+  const { date, time } = formatInTimeZone(instant, timeZone);
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// RFC 5545 lines are limited to 75 octets; longer ones continue after CRLF + space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of line) {
+    const length = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + length > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += length;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// +0200, -0330
+const formatIcsOffset = (offset: number) => {
+  const sign = offset < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `${sign}${hours.toString().padStart(2, '0')}${minutes
+    .toString()
+    .padStart(2, '0')}`;
+};
+
+// Meetings that repeat forever get this many years of the zone's offset
+// changes; clients carry the last known offset on after that
+const OPEN_ENDED_ZONE_YEARS = 10;
+
+const DAY_MS = 24 * 60 * 60000;
+
+interface ZoneTransition {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+// Instants in [from, to) where the zone's UTC offset changes. Checks once a
+// day, then narrows each change down to the minute.
+const getZoneTransitions = (timeZone: string, from: Date, to: Date) => {
+  const transitions: ZoneTransition[] = [];
+  let previous = from.getTime();
+  let previousOffset = getTimeZoneOffset(timeZone, from);
+  while (previous < to.getTime()) {
+    const current = Math.min(previous + DAY_MS, to.getTime());
+    const offset = getTimeZoneOffset(timeZone, new Date(current));
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = current;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimeZoneOffset(timeZone, new Date(middle)) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({
+        at: new Date(high),
+        offsetFrom: previousOffset,
+        offsetTo: offset,
+      });
+    }
+    previous = current;
+    previousOffset = offset;
+  }
+  return transitions;
+};
+
+// Last year the meeting can take place in, for the zone definition
+const getLastMeetingYear = (meeting: CalendarMeeting, start: Date) => {
+  const { recurrence } = meeting;
+  const startYear = start.getUTCFullYear();
+  if (meeting.mode !== 'weekly') return startYear;
+  if (recurrence?.end_date) {
+    return Number(toMeetingDate(meeting, recurrence.end_date).slice(0, 4));
+  }
+  if (recurrence?.count) {
+    const lastDate = addCalendarDays(
+      getFirstMeetingDate(meeting, recurrence),
+      (recurrence.count - 1) * recurrence.interval * 7
+    );
+    return Number(lastDate.slice(0, 4));
+  }
+  return startYear + OPEN_ENDED_ZONE_YEARS;
+};
+
+// The zone's offsets from the start of the first meeting's year through the
+// last one's, as one STANDARD or DAYLIGHT block per change. Each block's
+// DTSTART is the wall-clock time the change happens at, before it applies.
+const buildTimeZoneLines = (
+  meeting: CalendarMeeting,
+  start: Date,
+  lastYear: number
+) => {
+  const { timeZone } = meeting;
+  const from = new Date(Date.UTC(start.getUTCFullYear(), 0, 1));
+  const to = new Date(Date.UTC(lastYear + 1, 0, 1));
+  const transitions = getZoneTransitions(timeZone, from, to);
+  const initialOffset = getTimeZoneOffset(timeZone, from);
+  // Southern-hemisphere zones start the year on summer time
+  const startsOnDaylight =
+    transitions.length > 0 && transitions[0].offsetTo < initialOffset;
+
+  const toBlock = (
+    kind: 'STANDARD' | 'DAYLIGHT',
+    { at, offsetFrom, offsetTo }: ZoneTransition
+  ) => [
+    `BEGIN:${kind}`,
+    `DTSTART:${formatUtcStamp(
+      new Date(at.getTime() + offsetFrom * 60000)
+    ).replace('Z', '')}`,
+    `TZOFFSETFROM:${formatIcsOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatIcsOffset(offsetTo)}`,
+    `TZNAME:${formatTimeZoneOffset(timeZone, at)}`,
+    `END:${kind}`,
+  ];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...toBlock(startsOnDaylight ? 'DAYLIGHT' : 'STANDARD', {
+      at: from,
+      offsetFrom: initialOffset,
+      offsetTo: initialOffset,
+    }),
+    ...transitions.flatMap((transition) =>
+      toBlock(
+        transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD',
+        transition
+      )
+    ),
+    'END:VTIMEZONE',
+  ];
+};
+
+export const buildIcsFile = (meeting: CalendarMeeting, now = new Date()) => {
+  const start = getMeetingStart(meeting, now);
+  const end = getMeetingEnd(meeting, start);
+  const skippedStamps =
+    meeting.mode === 'weekly' && meeting.recurrence
+      ? getSkippedDates(meeting.recurrence, meeting.column || meeting.date).map(
+          (date) =>
+            formatLocalStamp(
+              zonedTimeToUtc(
+                toMeetingDate(meeting, date),
+                meeting.time,
+                meeting.timeZone
+              ),
+              meeting.timeZone
+            )
+        )
+      : [];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SchedMeet//SchedMeet//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    // Clients that know the IANA zone apply their own rules; the others
+    // read its offsets from this definition
+    ...buildTimeZoneLines(meeting, start, getLastMeetingYear(meeting, start)),
+    'BEGIN:VEVENT',
+    `UID:${meeting.uid}`,
+    `DTSTAMP:${formatUtcStamp(now)}`,
+    `DTSTART;TZID=${meeting.timeZone}:${formatLocalStamp(
+      start,
+      meeting.timeZone
+    )}`,
+    `DTEND;TZID=${meeting.timeZone}:${formatLocalStamp(end, meeting.timeZone)}`,
+    ...(meeting.mode === 'weekly' ? [`RRULE:${getWeeklyRule(meeting)}`] : []),
+    ...(skippedStamps.length
+      ? [`EXDATE;TZID=${meeting.timeZone}:${skippedStamps.join(',')}`]
+      : []),
+    `SUMMARY:${escapeText(meeting.title)}`,
+    `DESCRIPTION:${escapeText(getDescription(meeting))}`,
+    `URL:${meeting.url}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const getGoogleCalendarUrl = (meeting: CalendarMeeting) => {
+  const start = getMeetingStart(meeting);
+  const end = getMeetingEnd(meeting, start);
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: meeting.title,
+    dates: `${formatUtcStamp(start)}/${formatUtcStamp(end)}`,
+    details: getDescription(meeting),
+    ctz: meeting.timeZone,
+  });
+
+  // Add recurrence rule for weekly events. Google's link has no way to skip
+  // dates, so excluded dates are only honoured by the .ics file.
+  if (meeting.mode === 'weekly') {
+    params.append('recur', `RRULE:${getWeeklyRule(meeting)}`);
+  }
+
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+};
+
+// Outlook's compose link has no recurrence support, so weekly meetings only
+// get their first occurrence
+export const getOutlookCalendarUrl = (meeting: CalendarMeeting) => {
+  const start = getMeetingStart(meeting);
+  const end = getMeetingEnd(meeting, start);
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: meeting.title,
+    startdt: start.toISOString(),
+    enddt: end.toISOString(),
+    body: getDescription(meeting),
+  });
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+};
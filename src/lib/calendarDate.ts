@@ -0,0 +1,56 @@
+import { format } from 'date-fns';
+
+// A day on the calendar with no time of day or zone attached, as
+// "yyyy-MM-dd". Event dates are stored and compared this way so a picked day
+// is the same day for everyone, wherever they are.
+export type CalendarDate = string;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toParts = (value: CalendarDate) => value.split('-').map(Number);
+
+// The day a date picker shows for a Date, read from its local parts.
+// toISOString() would give the UTC day, which is off by one east of UTC.
+export const toCalendarDate = (date: Date): CalendarDate =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local midnight of the day, for date pickers and date-fns formatting.
+// new Date("yyyy-MM-dd") is UTC midnight, the previous day west of UTC.
+export const fromCalendarDate = (value: CalendarDate) => {
+  const [year, month, day] = toParts(value);
+  return new Date(year, month - 1, day);
+};
+
+// e.g. formatCalendarDate("2025-06-02", "EEE, MMM d") is "Mon, Jun 2"
+export const formatCalendarDate = (value: CalendarDate, pattern: string) =>
+  format(fromCalendarDate(value), pattern);
+
+export const getToday = () => toCalendarDate(new Date());
+
+export const addCalendarDays = (
+  value: CalendarDate,
+  amount: number
+): CalendarDate => {
+  const [year, month, day] = toParts(value);
+  const shifted = new Date(Date.UTC(year, month - 1, day + amount));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(
+    shifted.getUTCDate()
+  )}`;
+};
+
+// Whole days from one date to another, negative when `to` comes first
+export const getDaysBetween = (from: CalendarDate, to: CalendarDate) => {
+  const [fromYear, fromMonth, fromDay] = toParts(from);
+  const [toYear, toMonth, toDay] = toParts(to);
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) -
+      Date.UTC(fromYear, fromMonth - 1, fromDay)) /
+      86400000
+  );
+};
+
+// 0 = Sunday
+export const getCalendarWeekday = (value: CalendarDate) => {
+  const [year, month, day] = toParts(value);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
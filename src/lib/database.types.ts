@@ -0,0 +1,176 @@
+// Table and function types for supabase/migrations, in the shape
+// `supabase gen types typescript` produces. Kept in step with the migrations
+// by hand; update it in the same change as any migration.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      events: {
+        Row: {
+          admin_token: string | null;
+          created_at: string;
+          dates: string[];
+          days_of_week: number[] | null;
+          final_slot: Json | null;
+          id: string;
+          mode: string;
+          name: string;
+          privacy: string;
+          recurrence: Json | null;
+          required_participants: string[] | null;
+          slot_minutes: number | null;
+          time_range: Json;
+          time_windows: Json | null;
+          timezone: string | null;
+          window_overrides: Json | null;
+        };
+        Insert: {
+          admin_token?: string | null;
+          created_at?: string;
+          dates?: string[];
+          days_of_week?: number[] | null;
+          final_slot?: Json | null;
+          id?: string;
+          mode?: string;
+          name: string;
+          privacy?: string;
+          recurrence?: Json | null;
+          required_participants?: string[] | null;
+          slot_minutes?: number | null;
+          time_range: Json;
+          time_windows?: Json | null;
+          timezone?: string | null;
+          window_overrides?: Json | null;
+        };
+        Update: {
+          admin_token?: string | null;
+          created_at?: string;
+          dates?: string[];
+          days_of_week?: number[] | null;
+          final_slot?: Json | null;
+          id?: string;
+          mode?: string;
+          name?: string;
+          privacy?: string;
+          recurrence?: Json | null;
+          required_participants?: string[] | null;
+          slot_minutes?: number | null;
+          time_range?: Json;
+          time_windows?: Json | null;
+          timezone?: string | null;
+          window_overrides?: Json | null;
+        };
+        Relationships: [];
+      };
+      votes: {
+        Row: {
+          availability: Json;
+          created_at: string;
+          edit_token: string | null;
+          event_id: string;
+          id: string;
+          user_name: string;
+        };
+        Insert: {
+          availability?: Json;
+          created_at?: string;
+          edit_token?: string | null;
+          event_id: string;
+          id?: string;
+          user_name: string;
+        };
+        Update: {
+          availability?: Json;
+          created_at?: string;
+          edit_token?: string | null;
+          event_id?: string;
+          id?: string;
+          user_name?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'votes_event_id_fkey';
+            columns: ['event_id'];
+            isOneToOne: false;
+            referencedRelation: 'events';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      can_see_responses: {
+        Args: { target_event_id: string };
+        Returns: boolean;
+      };
+      can_see_vote_names: {
+        Args: { target_event_id: string };
+        Returns: boolean;
+      };
+      claim_unlocked_response: {
+        Args: {
+          target_event_id: string;
+          target_user_name: string;
+          new_availability: Json;
+        };
+        Returns: boolean;
+      };
+      has_responded: {
+        Args: { target_event_id: string };
+        Returns: boolean;
+      };
+      hash_token: {
+        Args: { token: string };
+        Returns: string;
+      };
+      is_event_admin: {
+        Args: { target_event_id: string };
+        Returns: boolean;
+      };
+      list_event_responses: {
+        Args: { target_event_id: string };
+        Returns: {
+          user_name: string;
+          availability: Json;
+          is_required: boolean;
+        }[];
+      };
+      list_required_participants: {
+        Args: { target_event_id: string };
+        Returns: string[];
+      };
+      request_header: {
+        Args: { header_name: string };
+        Returns: string;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Row'];
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Insert'];
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Update'];
@@ -0,0 +1,26 @@
+// Saves generated text content as a file through a temporary link
+export const downloadFile = (
+  fileName: string,
+  content: string,
+  mimeType: string
+) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Turns an event name into something safe to use as a file name
+export const toFileName = (name: string, extension: string) =>
+  `${
+    name
+      .trim()
+      .replace(/[^\p{L}\p{N}\- ]+/gu, '')
+      .replace(/\s+/g, '-')
+      .toLowerCase() || 'event'
+  }.${extension}`;
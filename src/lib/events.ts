@@ -0,0 +1,205 @@
+import { format, parse } from 'date-fns';
+import {
+  DAY_NAMES,
+  DEFAULT_SLOT_MINUTES,
+  EventMode,
+  EventSlot,
+  addMinutesToTime,
+  generateTimeSlots,
+  getNextColumn,
+  getRangeMinutes,
+  getSlotKey,
+  isOvernightRange,
+  timeToMinutes,
+} from '@/lib/slots';
+import type { Responses } from '@/lib/availability';
+import type { CalendarDate } from '@/lib/calendarDate';
+import type { Recurrence } from '@/lib/recurrence';
+import type { ResultsPrivacy } from '@/lib/privacy';
+
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+// The time the organizer settled on, in the event's own zone
+export interface FinalSlot {
+  date: string;
+  time: string;
+  duration_minutes: number;
+}
+
+// Row of the `events` table as participants see it (never includes admin_token)
+export interface EventRecord {
+  id: string;
+  name: string;
+  mode?: EventMode;
+  dates: CalendarDate[];
+  days_of_week?: number[];
+  // Weekly polls only: the date range the meetings repeat over
+  recurrence?: Recurrence | null;
+  // First window of each day; see getEventWindows
+  time_range: TimeRange;
+  // Every window offered each day, when there is more than one
+  time_windows?: TimeRange[] | null;
+  // Windows for particular dates or weekdays, keyed by grid column
+  window_overrides?: Record<string, TimeRange[]> | null;
+  timezone?: string;
+  slot_minutes?: number;
+  final_slot?: FinalSlot | null;
+  // Who sees participants' names and answers
+  privacy?: ResultsPrivacy;
+  created_at?: string;
+}
+
+export type EventInput = Omit<EventRecord, 'id' | 'created_at'> & {
+  // Names the organizer marked as must-attend. Never read back with the
+  // event, since it would show names the event hides; see
+  // listRequiredParticipants.
+  required_participants?: string[];
+};
+
+export const PUBLIC_EVENT_COLUMNS =
+  'id, name, mode, dates, days_of_week, recurrence, time_range, time_windows, window_overrides, timezone, slot_minutes, final_slot, privacy, created_at';
+
+// Grid columns: ISO dates for specific-date events, day names for weekly ones
+export const getEventColumns = (event: EventInput) =>
+  event.mode === 'weekly'
+    ? (event.days_of_week || []).map((d) => DAY_NAMES[d])
+    : event.dates || [];
+
+// e.g. "9:00 AM - 12:00 PM" or "8:00 PM - 2:00 AM (next day)"
+export const formatTimeRange = (timeRange: TimeRange) =>
+  [timeRange.start, timeRange.end]
+    .map((time) => format(parse(time, 'HH:mm', new Date()), 'h:mm a'))
+    .join(' - ') + (isOvernightRange(timeRange) ? ' (next day)' : '');
+
+// Explains what's wrong with one day's windows, or returns null when they
+// make sense. Pass the following day's windows when it is part of the poll,
+// so overnight windows are checked against them too.
+export const getTimeWindowsError = (
+  windows: TimeRange[],
+  slotMinutes: number,
+  nextDayWindows: TimeRange[] = []
+) => {
+  if (!windows.length) return 'Add at least one time window.';
+  for (const timeRange of windows) {
+    if (timeRange.start === timeRange.end) {
+      return `${formatTimeRange(timeRange)} starts and ends at the same time.`;
+    }
+    if (getRangeMinutes(timeRange) < slotMinutes) {
+      return `${formatTimeRange(
+        timeRange
+      )} is shorter than one ${slotMinutes}-minute slot.`;
+    }
+  }
+  // `shift` moves b by whole days, e.g. 1440 for the next day's windows
+  const overlaps = (a: TimeRange, b: TimeRange, shift = 0) => {
+    const aStart = timeToMinutes(a.start);
+    const bStart = timeToMinutes(b.start) + shift;
+    return (
+      aStart < bStart + getRangeMinutes(b) &&
+      bStart < aStart + getRangeMinutes(a)
+    );
+  };
+  for (let i = 0; i < windows.length; i++) {
+    for (let j = i + 1; j < windows.length; j++) {
+      if (overlaps(windows[i], windows[j])) {
+        return `${formatTimeRange(windows[i])} overlaps ${formatTimeRange(
+          windows[j]
+        )}.`;
+      }
+    }
+  }
+  for (const timeRange of windows.filter(isOvernightRange)) {
+    const next = nextDayWindows.find((window) =>
+      overlaps(timeRange, window, 1440)
+    );
+    if (next) {
+      return `${formatTimeRange(timeRange)} runs into ${formatTimeRange(
+        next
+      )} on the next day.`;
+    }
+  }
+  return null;
+};
+
+// Windows offered on days without an override
+export const getEventWindows = (
+  event: Pick<EventInput, 'time_range' | 'time_windows'>
+) => (event.time_windows?.length ? event.time_windows : [event.time_range]);
+
+export const getColumnWindows = (event: EventInput, column: string) =>
+  event.window_overrides?.[column] || getEventWindows(event);
+
+// Slots offered in one column, in the order they happen
+export const getColumnSlots = (event: EventInput, column: string) => {
+  const slotMinutes = event.slot_minutes || DEFAULT_SLOT_MINUTES;
+  const slots = new Map<string, EventSlot>();
+  for (const timeRange of getColumnWindows(event, column)) {
+    for (const time of generateTimeSlots(timeRange, slotMinutes)) {
+      // Past midnight in an overnight window
+      const date = time < timeRange.start ? getNextColumn(column) : column;
+      const key = getSlotKey(date, time);
+      slots.set(key, { key, date, time, column });
+    }
+  }
+  const isAfterMidnight = (slot: EventSlot) => slot.date !== slot.column;
+  return Array.from(slots.values()).sort(
+    (a, b) =>
+      Number(isAfterMidnight(a)) - Number(isAfterMidnight(b)) ||
+      a.time.localeCompare(b.time)
+  );
+};
+
+// Every slot the event offers. When an overnight window runs into the next
+// column's own windows, the shared slot stays with the earlier column.
+export const getEventSlots = (event: EventInput) => {
+  const slots = new Map<string, EventSlot>();
+  for (const column of getEventColumns(event)) {
+    for (const slot of getColumnSlots(event, column)) {
+      if (!slots.has(slot.key)) slots.set(slot.key, slot);
+    }
+  }
+  return Array.from(slots.values());
+};
+
+export const getEventSlotKeys = (event: EventInput) =>
+  new Set(getEventSlots(event).map((slot) => slot.key));
+
+// Selected slots per participant that fall outside the event's current grid,
+// e.g. after the organizer removed a date or narrowed the time window
+export const findOrphanedSlots = (responses: Responses, event: EventInput) => {
+  const validKeys = getEventSlotKeys(event);
+  const orphaned: Record<string, string[]> = {};
+  for (const [userName, availability] of Object.entries(responses)) {
+    const keys = Object.keys(availability).filter(
+      (key) => availability[key] && !validKeys.has(key)
+    );
+    if (keys.length) orphaned[userName] = keys;
+  }
+  return orphaned;
+};
+
+// Grid cells covered by the finalized meeting
+export const getFinalSlotKeys = (finalSlot: FinalSlot, slotMinutes: number) => {
+  const keys = new Set<string>();
+  for (
+    let offset = 0;
+    offset < finalSlot.duration_minutes;
+    offset += slotMinutes
+  ) {
+    const time = addMinutesToTime(finalSlot.time, offset);
+    // Meetings that run past midnight continue on the next day
+    const date =
+      time < finalSlot.time ? getNextColumn(finalSlot.date) : finalSlot.date;
+    keys.add(getSlotKey(date, time));
+  }
+  return keys;
+};
+
+// Required names that actually responded; anyone else can't block a slot
+export const getRequiredParticipants = (
+  required: string[],
+  responses: Responses
+) => required.filter((name) => name in responses);
@@ -0,0 +1,513 @@
+import type { Availability } from '@/lib/availability';
+import {
+  CalendarDate,
+  addCalendarDays,
+  getCalendarWeekday,
+  getDaysBetween,
+} from '@/lib/calendarDate';
+import { EventMode, EventSlot, getEventSlotStart } from '@/lib/slots';
+import { isValidTimeZone, zonedTimeToUtc } from '@/lib/timezone';
+
+// Reads busy times out of an iCalendar (.ics) export, e.g. from Google
+// Calendar, Outlook or Apple Calendar, to prefill someone's availability.
+// Only what's needed for that is supported: VEVENTs with their time zones,
+// DURATION, RRULE, EXDATE and moved occurrences (RECURRENCE-ID).
+
+export interface BusyTime {
+  start: Date;
+  end: Date;
+  summary: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A DATE or DATE-TIME value. `timeZone` is null for floating times, which are
+// read in the importing person's zone, and `time` is null for all-day dates.
+interface IcsDateValue {
+  date: CalendarDate;
+  time: string | null;
+  timeZone: string | null;
+}
+
+// Outlook exports Windows zone names; these cover most of its users
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Mountain Standard Time': 'America/Denver',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'SE Asia Standard Time': 'Asia/Bangkok',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Stops runaway rules such as a daily event with no end. Counted from the
+// first period that can reach the range unless the rule has a COUNT.
+const MAX_RECURRENCE_STEPS = 5000;
+
+// Long lines continue on the next line after a space or tab
+const unfoldLines = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim());
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+const parseProperty = (line: string): IcsProperty | null => {
+  let isQuoted = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') isQuoted = !isQuoted;
+    if (line[i] === ':' && !isQuoted) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...paramParts] =
+    line.slice(0, separator).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return {
+    name: (name || '').toUpperCase(),
+    params,
+    value: line.slice(separator + 1),
+  };
+};
+
+// The properties of each VEVENT, leaving out nested VALARMs
+const parseEvents = (text: string) => {
+  const events: IcsProperty[][] = [];
+  const stack: string[] = [];
+  let current: IcsProperty[] = [];
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') current = [];
+    } else if (property.name === 'END') {
+      if (stack.pop() === 'VEVENT') events.push(current);
+    } else if (stack[stack.length - 1] === 'VEVENT') {
+      current.push(property);
+    }
+  }
+  return events;
+};
+
+const resolveTimeZone = (tzid: string | undefined) => {
+  if (!tzid) return null;
+  if (isValidTimeZone(tzid)) return tzid;
+  if (WINDOWS_TIME_ZONES[tzid]) return WINDOWS_TIME_ZONES[tzid];
+  // e.g. "/mozilla.org/20050126_1/America/New_York"
+  const suffix = tzid.split('/').slice(-2).join('/');
+  return isValidTimeZone(suffix) ? suffix : null;
+};
+
+// 20250602, 20250602T090000 or 20250602T090000Z
+const parseDateValue = (
+  value: string,
+  params: Record<string, string>
+): IcsDateValue | null => {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, utc] = match;
+  return {
+    date: `${year}-${month}-${day}`,
+    time: hours ? `${hours}:${minutes}` : null,
+    timeZone: utc ? 'UTC' : resolveTimeZone(params.TZID),
+  };
+};
+
+const toInstant = (value: IcsDateValue, defaultTimeZone: string) =>
+  zonedTimeToUtc(
+    value.date,
+    value.time || '00:00',
+    value.timeZone || defaultTimeZone
+  );
+
+// P1D, PT1H30M, P1W, -PT15M
+const parseDurationMinutes = (value: string) => {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total =
+    Number(weeks || 0) * 7 * 1440 +
+    Number(days || 0) * 1440 +
+    Number(hours || 0) * 60 +
+    Number(minutes || 0);
+  return sign === '-' ? -total : total;
+};
+
+const parseRule = (value: string) =>
+  Object.fromEntries(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')];
+    })
+  ) as Record<string, string | undefined>;
+
+const getDaysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const getCalendarDateOf = (
+  year: number,
+  month: number,
+  day: number
+): CalendarDate =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// BYDAY entries like "MO", "2TU" or "-1FR"
+const parseByDay = (value: string | undefined) =>
+  (value || '')
+    .split(',')
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/);
+      return match
+        ? {
+            ordinal: match[1] ? Number(match[1]) : null,
+            weekday: WEEKDAY_CODES.indexOf(match[2]),
+          }
+        : null;
+    })
+    .filter((entry) => entry && entry.weekday !== -1);
+
+// Candidate dates of one month for BYDAY / BYMONTHDAY rules
+const getMonthDates = (
+  year: number,
+  month: number,
+  rule: Record<string, string | undefined>,
+  start: CalendarDate
+) => {
+  const daysInMonth = getDaysInMonth(year, month);
+  const byDay = parseByDay(rule.BYDAY);
+  const days: number[] = [];
+  if (byDay.length) {
+    for (const { ordinal, weekday } of byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (
+          getCalendarWeekday(getCalendarDateOf(year, month, day)) === weekday
+        ) {
+          matching.push(day);
+        }
+      }
+      if (ordinal === null) days.push(...matching);
+      else if (ordinal > 0 && matching[ordinal - 1]) {
+        days.push(matching[ordinal - 1]);
+      } else if (ordinal < 0 && matching[matching.length + ordinal]) {
+        days.push(matching[matching.length + ordinal]);
+      }
+    }
+  } else {
+    const byMonthDay = rule.BYMONTHDAY
+      ? rule.BYMONTHDAY.split(',').map(Number)
+      : [Number(start.slice(8, 10))];
+    for (const day of byMonthDay) {
+      const resolved = day < 0 ? daysInMonth + day + 1 : day;
+      // Months without the day (e.g. the 31st) are skipped
+      if (resolved >= 1 && resolved <= daysInMonth) days.push(resolved);
+    }
+  }
+  return Array.from(new Set(days))
+    .sort((a, b) => a - b)
+    .map((day) => getCalendarDateOf(year, month, day));
+};
+
+// Start dates of a recurring event in the order they happen, up to
+// `lastDate`. Dates before `firstDate` may be left out.
+const expandRule = (
+  start: CalendarDate,
+  rule: Record<string, string | undefined>,
+  firstDate: CalendarDate,
+  lastDate: CalendarDate,
+  isBeforeUntil: (date: CalendarDate) => boolean
+) => {
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const dates: CalendarDate[] = [];
+  const [startYear, startMonth] = start.split('-').map(Number);
+  const weekStart = WEEKDAY_CODES.indexOf(rule.WKST || 'MO');
+  const byDay = parseByDay(rule.BYDAY);
+
+  const getPeriodDates = (step: number): CalendarDate[] => {
+    switch (rule.FREQ) {
+      case 'DAILY': {
+        const date = addCalendarDays(start, step * interval);
+        return !byDay.length ||
+          byDay.some((entry) => entry.weekday === getCalendarWeekday(date))
+          ? [date]
+          : [];
+      }
+      case 'WEEKLY': {
+        const firstWeek = addCalendarDays(
+          start,
+          -((getCalendarWeekday(start) - weekStart + 7) % 7)
+        );
+        const week = addCalendarDays(firstWeek, step * interval * 7);
+        const weekdays = byDay.length
+          ? byDay.map((entry) => entry.weekday)
+          : [getCalendarWeekday(start)];
+        return weekdays
+          .map((weekday) =>
+            addCalendarDays(week, (weekday - weekStart + 7) % 7)
+          )
+          .sort();
+      }
+      case 'MONTHLY': {
+        const monthIndex = startMonth - 1 + step * interval;
+        return getMonthDates(
+          startYear + Math.floor(monthIndex / 12),
+          (monthIndex % 12) + 1,
+          rule,
+          start
+        );
+      }
+      case 'YEARLY': {
+        const year = startYear + step * interval;
+        const months = rule.BYMONTH
+          ? rule.BYMONTH.split(',').map(Number)
+          : [startMonth];
+        return months.flatMap((month) =>
+          getMonthDates(
+            year,
+            month,
+            { BYMONTHDAY: rule.BYMONTHDAY, BYDAY: rule.BYDAY },
+            start
+          )
+        );
+      }
+      default:
+        return [];
+    }
+  };
+
+  // Without a COUNT nothing before firstDate matters, so long-running rules
+  // (a daily standup since 2010) skip straight to it. Rounding down keeps
+  // the period that contains firstDate.
+  const getFirstStep = () => {
+    if (count !== Infinity || firstDate <= start) return 0;
+    const [firstYear, firstMonth] = firstDate.split('-').map(Number);
+    switch (rule.FREQ) {
+      case 'DAILY':
+        return Math.floor(getDaysBetween(start, firstDate) / interval);
+      case 'WEEKLY':
+        return Math.floor(getDaysBetween(start, firstDate) / (7 * interval));
+      case 'MONTHLY':
+        return Math.floor(
+          ((firstYear - startYear) * 12 + firstMonth - startMonth) / interval
+        );
+      case 'YEARLY':
+        return Math.floor((firstYear - startYear) / interval);
+      default:
+        return 0;
+    }
+  };
+
+  const firstStep = getFirstStep();
+  for (let step = firstStep; step < firstStep + MAX_RECURRENCE_STEPS; step++) {
+    for (const date of getPeriodDates(step)) {
+      if (date < start) continue;
+      if (dates.length >= count || date > lastDate || !isBeforeUntil(date)) {
+        return dates;
+      }
+      dates.push(date);
+    }
+  }
+  return dates;
+};
+
+// Busy times between rangeStart and rangeEnd. Free (TRANSP:TRANSPARENT) and
+// cancelled events are left out; floating and all-day times are read in
+// defaultTimeZone.
+export const parseBusyTimes = (
+  text: string,
+  {
+    rangeStart,
+    rangeEnd,
+    defaultTimeZone,
+  }: { rangeStart: Date; rangeEnd: Date; defaultTimeZone: string }
+) => {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new Error("This doesn't look like an iCalendar (.ics) file.");
+  }
+
+  const events = parseEvents(text).map((properties) => {
+    const get = (name: string) => properties.find((p) => p.name === name);
+    return { properties, get };
+  });
+
+  // Occurrences moved or cancelled by a separate VEVENT with the same UID
+  const overridden = new Set<string>();
+  for (const { get } of events) {
+    const uid = get('UID')?.value;
+    const recurrenceId = get('RECURRENCE-ID');
+    const value =
+      recurrenceId && parseDateValue(recurrenceId.value, recurrenceId.params);
+    if (uid && value) {
+      overridden.add(`${uid}@${toInstant(value, defaultTimeZone).getTime()}`);
+    }
+  }
+
+  const busyTimes: BusyTime[] = [];
+  for (const { properties, get } of events) {
+    const dtStart = get('DTSTART');
+    const start = dtStart && parseDateValue(dtStart.value, dtStart.params);
+    if (!start) continue;
+    if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') continue;
+    if (get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') continue;
+
+    const timeZone = start.timeZone || defaultTimeZone;
+    const firstStart = toInstant(start, defaultTimeZone);
+    const dtEnd = get('DTEND');
+    const end = dtEnd && parseDateValue(dtEnd.value, dtEnd.params);
+    const duration = get('DURATION');
+    const durationMinutes = end
+      ? (toInstant(end, defaultTimeZone).getTime() - firstStart.getTime()) /
+        60000
+      : duration
+      ? parseDurationMinutes(duration.value)
+      : // All-day events without an end last the day
+      start.time
+      ? 0
+      : 1440;
+    if (!durationMinutes || durationMinutes <= 0) continue;
+
+    const uid = get('UID')?.value;
+    const summary = get('SUMMARY')?.value || '';
+    const addOccurrence = (occurrenceStart: Date) => {
+      const occurrenceEnd = new Date(
+        occurrenceStart.getTime() + durationMinutes * 60000
+      );
+      if (occurrenceStart < rangeEnd && occurrenceEnd > rangeStart) {
+        busyTimes.push({ start: occurrenceStart, end: occurrenceEnd, summary });
+      }
+    };
+
+    const rrule = get('RRULE');
+    if (!rrule || get('RECURRENCE-ID')) {
+      addOccurrence(firstStart);
+      continue;
+    }
+
+    const excluded = new Set<number>();
+    for (const exdate of properties.filter((p) => p.name === 'EXDATE')) {
+      for (const value of exdate.value.split(',')) {
+        const parsed = parseDateValue(value, exdate.params);
+        // Date-only exclusions skip the occurrence on that day
+        if (parsed) {
+          excluded.add(
+            toInstant(
+              parsed.time ? parsed : { ...start, date: parsed.date },
+              defaultTimeZone
+            ).getTime()
+          );
+        }
+      }
+    }
+
+    const rule = parseRule(rrule.value);
+    const until = rule.UNTIL ? parseDateValue(rule.UNTIL, {}) : null;
+    const untilTime = until && toInstant(until, timeZone).getTime();
+    const occurrenceAt = (date: CalendarDate) =>
+      toInstant({ ...start, date }, defaultTimeZone);
+    // Occurrences starting before firstDate end before the range does, and
+    // the ones after lastDate start after it; a day's margin either way
+    // covers the zone offset
+    const firstDate = addCalendarDays(
+      start.date,
+      Math.floor(
+        (rangeStart.getTime() - firstStart.getTime()) / 86400000 -
+          durationMinutes / 1440
+      ) - 1
+    );
+    const lastDate = addCalendarDays(
+      start.date,
+      Math.ceil((rangeEnd.getTime() - firstStart.getTime()) / 86400000) + 1
+    );
+
+    for (const date of expandRule(
+      start.date,
+      rule,
+      firstDate,
+      lastDate,
+      (date) =>
+        untilTime === null ||
+        (until.time
+          ? occurrenceAt(date).getTime() <= untilTime
+          : getDaysBetween(date, until.date) >= 0)
+    )) {
+      const occurrenceStart = occurrenceAt(date);
+      if (excluded.has(occurrenceStart.getTime())) continue;
+      if (uid && overridden.has(`${uid}@${occurrenceStart.getTime()}`)) {
+        continue;
+      }
+      addOccurrence(occurrenceStart);
+    }
+  }
+
+  return busyTimes.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+// Marks every slot as available unless a busy time overlaps it
+export const getAvailabilityFromBusyTimes = ({
+  slots,
+  busyTimes,
+  mode,
+  timeZone,
+  slotMinutes,
+}: {
+  slots: EventSlot[];
+  busyTimes: BusyTime[];
+  mode: EventMode;
+  timeZone: string;
+  slotMinutes: number;
+}) => {
+  const availability: Availability = {};
+  for (const slot of slots) {
+    const start = getEventSlotStart(slot, mode, timeZone);
+    const end = new Date(start.getTime() + slotMinutes * 60000);
+    availability[slot.key] = !busyTimes.some(
+      (busy) => busy.start < end && busy.end > start
+    );
+  }
+  return availability;
+};
+
+// The instants the event's grid covers, to limit which busy times matter
+export const getSlotsRange = (
+  slots: EventSlot[],
+  mode: EventMode,
+  timeZone: string,
+  slotMinutes: number
+) => {
+  const starts = slots.map((slot) =>
+    getEventSlotStart(slot, mode, timeZone).getTime()
+  );
+  return {
+    rangeStart: new Date(Math.min(...starts)),
+    rangeEnd: new Date(Math.max(...starts) + slotMinutes * 60000),
+  };
+};
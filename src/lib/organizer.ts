@@ -0,0 +1,19 @@
+const adminTokenKey = (eventId: string) => `schedmeet:admin-token:${eventId}`;
+
+export const generateSecretToken = () => crypto.randomUUID().replace(/-/g, '');
+
+export const saveAdminToken = (eventId: string, token: string) => {
+  localStorage.setItem(adminTokenKey(eventId), token);
+};
+
+export const getAdminToken = (eventId: string) =>
+  localStorage.getItem(adminTokenKey(eventId));
+
+export const getAdminPath = (eventId: string, token: string) =>
+  `/event/${eventId}/admin?token=${encodeURIComponent(token)}`;
+
+export const getAdminUrl = (eventId: string, token: string) =>
+  `${window.location.origin}${getAdminPath(eventId, token)}`;
+
+// Sent with organizer-only writes so the database can check the admin token
+export const ADMIN_TOKEN_HEADER = 'x-admin-token';
@@ -0,0 +1,38 @@
+const nameKey = (eventId: string) => `schedmeet:name:${eventId}`;
+
+// Remembers who responded from this browser so returning visitors skip the name step
+export const rememberName = (eventId: string, userName: string) => {
+  localStorage.setItem(nameKey(eventId), userName);
+};
+
+export const getRememberedName = (eventId: string) =>
+  localStorage.getItem(nameKey(eventId));
+
+export const forgetName = (eventId: string) => {
+  localStorage.removeItem(nameKey(eventId));
+};
+
+// Sent with vote writes so the database can check the caller owns the response
+export const EDIT_TOKEN_HEADER = 'x-edit-token';
+
+const editTokenKey = (eventId: string, userName: string) =>
+  `schedmeet:edit-token:${eventId}:${userName}`;
+
+export const saveEditToken = (
+  eventId: string,
+  userName: string,
+  token: string
+) => {
+  localStorage.setItem(editTokenKey(eventId, userName), token);
+};
+
+export const getEditToken = (eventId: string, userName: string) =>
+  localStorage.getItem(editTokenKey(eventId, userName));
+
+export const getEditPath = (eventId: string, userName: string, token: string) =>
+  `/event/${eventId}?name=${encodeURIComponent(
+    userName
+  )}&token=${encodeURIComponent(token)}`;
+
+export const getEditUrl = (eventId: string, userName: string, token: string) =>
+  `${window.location.origin}${getEditPath(eventId, userName, token)}`;
@@ -0,0 +1,62 @@
+// Who can see which participant picked which times. The database enforces
+// this too; see list_event_responses.
+export type ResultsPrivacy =
+  | 'public'
+  | 'anonymous'
+  | 'organizer_only'
+  | 'after_vote';
+
+export const DEFAULT_PRIVACY: ResultsPrivacy = 'public';
+
+export const PRIVACY_OPTIONS: {
+  value: ResultsPrivacy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: 'public',
+    label: 'Everyone',
+    description: 'Anyone with the link sees who picked which times.',
+  },
+  {
+    value: 'organizer_only',
+    label: 'Only the organizer',
+    description:
+      'Only the organizer sees who picked which times. Everyone else sees counts.',
+  },
+  {
+    value: 'anonymous',
+    label: 'Nobody (anonymous)',
+    description:
+      'Nobody, not even the organizer, sees who picked which times. Everyone sees counts.',
+  },
+  {
+    value: 'after_vote',
+    label: 'Everyone, after responding',
+    description:
+      'Results and names stay hidden until you submit your own availability.',
+  },
+];
+
+export interface ResultsVisibility {
+  canSeeResults: boolean;
+  canSeeNames: boolean;
+}
+
+// Same rules as the database's can_see_responses and can_see_vote_names
+export const getResultsVisibility = (
+  privacy: ResultsPrivacy | undefined,
+  { isOrganizer, hasResponded }: { isOrganizer: boolean; hasResponded: boolean }
+): ResultsVisibility => {
+  const canSeeResults = privacy !== 'after_vote' || isOrganizer || hasResponded;
+  switch (privacy || DEFAULT_PRIVACY) {
+    case 'public':
+      return { canSeeResults, canSeeNames: true };
+    case 'organizer_only':
+      return { canSeeResults, canSeeNames: isOrganizer };
+    case 'after_vote':
+      return { canSeeResults, canSeeNames: canSeeResults };
+    default:
+      return { canSeeResults, canSeeNames: false };
+  }
+};
@@ -0,0 +1,54 @@
+import type { Availability } from '@/lib/availability';
+
+export type VoteChange =
+  | { type: 'insert' | 'update'; userName: string; availability: Availability }
+  // Supabase only sends a removed row's id, so listeners refetch instead
+  | { type: 'delete' };
+
+export type VoteChangeListener = (change: VoteChange) => void;
+
+// In-browser stand-in for Supabase Realtime used by the local storage
+// backend. Changes reach every tab of the same browser.
+const memoryListeners = new Map<string, Set<VoteChangeListener>>();
+let memoryChannel: BroadcastChannel | null = null;
+
+const notifyMemoryListeners = (eventId: string, change: VoteChange) => {
+  memoryListeners.get(eventId)?.forEach((listener) => listener(change));
+};
+
+const getMemoryChannel = () => {
+  if (!memoryChannel && typeof BroadcastChannel !== 'undefined') {
+    memoryChannel = new BroadcastChannel('schedmeet:votes');
+    memoryChannel.onmessage = (
+      message: MessageEvent<{ eventId: string; change: VoteChange }>
+    ) => notifyMemoryListeners(message.data.eventId, message.data.change);
+  }
+  return memoryChannel;
+};
+
+export const subscribeInMemory = (
+  eventId: string,
+  onChange: VoteChangeListener
+) => {
+  getMemoryChannel();
+  const listeners = memoryListeners.get(eventId) || new Set();
+  listeners.add(onChange);
+  memoryListeners.set(eventId, listeners);
+  return () => {
+    listeners.delete(onChange);
+  };
+};
+
+export const publishInMemory = (eventId: string, change: VoteChange) => {
+  notifyMemoryListeners(eventId, change);
+  getMemoryChannel()?.postMessage({ eventId, change });
+};
+
+// Slot keys whose value differs between two versions of a response
+export const getChangedSlotKeys = (
+  before: Availability = {},
+  after: Availability = {}
+) =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+    (key) => (before[key] || false) !== (after[key] || false)
+  );
@@ -0,0 +1,95 @@
+import {
+  CalendarDate,
+  addCalendarDays,
+  formatCalendarDate,
+  getCalendarWeekday,
+  getDaysBetween,
+} from '@/lib/calendarDate';
+import { DAY_NAMES } from '@/lib/slots';
+
+// When a weekly poll's meetings happen, e.g. a semester of every-other-week
+// sessions. Stored on the event; polls without one repeat forever from the
+// week they're added to a calendar.
+export interface Recurrence {
+  start_date: CalendarDate;
+  // Meet every this many weeks
+  interval: number;
+  // Last day a meeting can happen (UNTIL). Set at most one of end_date and
+  // count; neither means the meetings never end.
+  end_date?: CalendarDate | null;
+  // Number of meetings (COUNT). Like in calendar apps, skipped dates count.
+  count?: number | null;
+  // Days without a meeting, e.g. holidays (EXDATE)
+  excluded_dates?: CalendarDate[];
+}
+
+export const REPEAT_INTERVAL_OPTIONS = [1, 2, 3, 4];
+
+// First date on or after the start that falls on the given day name
+export const getFirstOccurrence = (recurrence: Recurrence, dayName: string) =>
+  addCalendarDays(
+    recurrence.start_date,
+    (DAY_NAMES.indexOf(dayName) -
+      getCalendarWeekday(recurrence.start_date) +
+      7) %
+      7
+  );
+
+// Excluded dates that would otherwise have had a meeting on the given day
+export const getSkippedDates = (recurrence: Recurrence, dayName: string) => {
+  const firstOccurrence = getFirstOccurrence(recurrence, dayName);
+  return (recurrence.excluded_dates || [])
+    .filter((date) => {
+      const daysFromFirst = getDaysBetween(firstOccurrence, date);
+      return (
+        daysFromFirst >= 0 &&
+        daysFromFirst % (7 * recurrence.interval) === 0 &&
+        (!recurrence.end_date || date <= recurrence.end_date)
+      );
+    })
+    .sort();
+};
+
+// Explains what's wrong with the schedule, or returns null when it's usable
+export const getRecurrenceError = (recurrence: Recurrence) => {
+  if (!REPEAT_INTERVAL_OPTIONS.includes(recurrence.interval)) {
+    return 'Pick how often the meetings repeat.';
+  }
+  if (recurrence.end_date && recurrence.end_date < recurrence.start_date) {
+    return 'The end date is before the start date.';
+  }
+  if (
+    recurrence.count !== null &&
+    recurrence.count !== undefined &&
+    !(Number.isInteger(recurrence.count) && recurrence.count >= 1)
+  ) {
+    return 'The number of meetings must be a whole number of at least 1.';
+  }
+  return null;
+};
+
+// e.g. "every 2 weeks from Sep 1, 2025 until Dec 19, 2025, except Nov 24"
+export const formatRecurrence = (recurrence: Recurrence) => {
+  const formatDate = (date: CalendarDate) =>
+    formatCalendarDate(date, 'MMM d, yyyy');
+  const parts = [
+    recurrence.interval > 1 ? `every ${recurrence.interval} weeks` : 'weekly',
+    `from ${formatDate(recurrence.start_date)}`,
+  ];
+  if (recurrence.end_date) {
+    parts.push(`until ${formatDate(recurrence.end_date)}`);
+  } else if (recurrence.count) {
+    parts.push(
+      `for ${recurrence.count} meeting${recurrence.count === 1 ? '' : 's'}`
+    );
+  }
+  const excluded = [...(recurrence.excluded_dates || [])].sort();
+  return (
+    parts.join(' ') +
+    (excluded.length
+      ? `, except ${excluded
+          .map((date) => formatCalendarDate(date, 'MMM d'))
+          .join(', ')}`
+      : '')
+  );
+};
@@ -0,0 +1,28 @@
+import { isSupabaseConfigured } from '@/lib/supabaseClient';
+import { indexedDbStorage } from '@/lib/storage/indexedDb';
+import { supabaseStorage } from '@/lib/storage/supabase';
+import type { StorageBackend } from '@/lib/storage/types';
+
+export { NameTakenError } from '@/lib/storage/types';
+export type { VoteAccess, VoteInput } from '@/lib/storage/types';
+
+// VITE_STORAGE picks the backend explicitly ("supabase" or "local").
+// Without it, Supabase is used whenever it is configured.
+export const storageKind =
+  import.meta.env.VITE_STORAGE || (isSupabaseConfigured ? 'supabase' : 'local');
+
+const storage: StorageBackend =
+  storageKind === 'local' ? indexedDbStorage : supabaseStorage;
+
+export const {
+  getEvent,
+  getAdminEvent,
+  createEvent,
+  updateEvent,
+  listVotes,
+  listRequiredParticipants,
+  getVote,
+  upsertVote,
+  setVoteEditToken,
+  subscribeToVotes,
+} = storage;
@@ -0,0 +1,130 @@
+import { DEFAULT_SLOT_MINUTES, parseSlotKey } from '@/lib/slots';
+import { EventRecord, getEventSlots } from '@/lib/events';
+import { DEFAULT_PRIVACY } from '@/lib/privacy';
+import {
+  AvailabilityValue,
+  Responses,
+  isAvailable,
+  isIfNeeded,
+} from '@/lib/availability';
+
+type ExportAnswer = 'yes' | 'if_needed' | 'no';
+
+const toAnswer = (value: AvailabilityValue | undefined): ExportAnswer =>
+  isAvailable(value) ? 'yes' : isIfNeeded(value) ? 'if_needed' : 'no';
+
+const ANSWER_LABELS: Record<ExportAnswer, string> = {
+  yes: 'yes',
+  if_needed: 'if needed',
+  no: 'no',
+};
+
+// Quotes fields that need it, and defuses names like "=HYPERLINK(...)" that
+// spreadsheets would otherwise run as formulas
+const toCsvField = (value: string | number) => {
+  let field = String(value);
+  if (/^[=+\-@\t\r]/.test(field)) field = `'${field}`;
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+const toCsv = (rows: (string | number)[][]) =>
+  rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+
+// Slots currently on the grid, with their column and time read back from the
+// key. Answers for slots the organizer has since removed are left out.
+const getExportSlots = (event: EventRecord) =>
+  getEventSlots(event).map((slot) => ({
+    key: slot.key,
+    ...parseSlotKey(slot.key),
+  }));
+
+// One row per participant and one column per slot, each cell "yes", "if
+// needed" or "no". Times are in the event's zone.
+export const buildResponsesCsv = (event: EventRecord, responses: Responses) => {
+  const slots = getExportSlots(event);
+  return toCsv([
+    ['Participant', ...slots.map((slot) => `${slot.date} ${slot.time}`)],
+    ...Object.entries(responses).map(([userName, availability]) => [
+      userName,
+      ...slots.map((slot) => ANSWER_LABELS[toAnswer(availability[slot.key])]),
+    ]),
+  ]);
+};
+
+const getSlotSummaries = (event: EventRecord, responses: Responses) => {
+  const entries = Object.entries(responses);
+  return getExportSlots(event).map((slot) => ({
+    ...slot,
+    available: entries
+      .filter(([, availability]) => isAvailable(availability[slot.key]))
+      .map(([userName]) => userName),
+    if_needed: entries
+      .filter(([, availability]) => isIfNeeded(availability[slot.key]))
+      .map(([userName]) => userName),
+  }));
+};
+
+// One row per slot with how many people can make it and who
+export const buildSlotSummaryCsv = (event: EventRecord, responses: Responses) =>
+  toCsv([
+    [
+      event.mode === 'weekly' ? 'Day' : 'Date',
+      'Time',
+      'Available',
+      'If needed',
+      'Available names',
+      'If needed names',
+    ],
+    ...getSlotSummaries(event, responses).map((slot) => [
+      slot.date,
+      slot.time,
+      slot.available.length,
+      slot.if_needed.length,
+      slot.available.join('; '),
+      slot.if_needed.join('; '),
+    ]),
+  ]);
+
+// Everything in one document, for scripts and other tools. Required
+// participants are left out when null, e.g. when the event hides names.
+export const buildResultsJson = (
+  event: EventRecord,
+  responses: Responses,
+  requiredParticipants: string[] | null,
+  exportedAt = new Date()
+) => {
+  const slots = getExportSlots(event);
+  return JSON.stringify(
+    {
+      event: {
+        id: event.id,
+        name: event.name,
+        mode: event.mode || 'specific',
+        dates: event.mode === 'weekly' ? undefined : event.dates,
+        days_of_week: event.mode === 'weekly' ? event.days_of_week : undefined,
+        recurrence: event.recurrence || null,
+        timezone: event.timezone || null,
+        slot_minutes: event.slot_minutes || DEFAULT_SLOT_MINUTES,
+        time_range: event.time_range,
+        time_windows: event.time_windows || null,
+        window_overrides: event.window_overrides || null,
+        privacy: event.privacy || DEFAULT_PRIVACY,
+        final_slot: event.final_slot || null,
+        required_participants: requiredParticipants ?? undefined,
+        created_at: event.created_at,
+      },
+      exported_at: exportedAt.toISOString(),
+      participants: Object.entries(responses).map(
+        ([userName, availability]) => ({
+          name: userName,
+          answers: Object.fromEntries(
+            slots.map((slot) => [slot.key, toAnswer(availability[slot.key])])
+          ),
+        })
+      ),
+      slots: getSlotSummaries(event, responses),
+    },
+    null,
+    2
+  );
+};
@@ -0,0 +1,223 @@
+import { format } from 'date-fns';
+import { addCalendarDays } from '@/lib/calendarDate';
+import { formatInTimeZone, zonedTimeToUtc } from '@/lib/timezone';
+
+export type EventMode = 'specific' | 'weekly';
+
+export const SLOT_MINUTE_OPTIONS = [15, 30, 60];
+export const DEFAULT_SLOT_MINUTES = 30;
+
+export const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// Slot keys are stored in votes.availability as "<date or day name>_<HH:mm>",
+// always expressed in the event's own time zone.
+export const getSlotKey = (dateStr: string, timeSlot: string) =>
+  `${dateStr}_${timeSlot}`;
+
+export const parseSlotKey = (key: string) => {
+  const idx = key.lastIndexOf('_');
+  return { date: key.slice(0, idx), time: key.slice(idx + 1) };
+};
+
+// Minutes since midnight for an "HH:mm" time
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Length of a range; one that ends at or before its start runs past midnight
+export const getRangeMinutes = (timeRange: { start: string; end: string }) =>
+  (timeToMinutes(timeRange.end) - timeToMinutes(timeRange.start) + 1440) % 1440;
+
+// Whether some of the range's slots fall on the next day, e.g. 20:00-02:00
+export const isOvernightRange = (timeRange: { start: string; end: string }) =>
+  timeRange.end < timeRange.start && timeRange.end !== '00:00';
+
+// Start times in the order they happen, wrapping past midnight for overnight
+// ranges. A range that starts and ends at the same time has no slots.
+export const generateTimeSlots = (
+  timeRange: { start: string; end: string },
+  slotMinutes = DEFAULT_SLOT_MINUTES
+) => {
+  const slots: string[] = [];
+  const rangeMinutes = getRangeMinutes(timeRange);
+
+  for (let offset = 0; offset < rangeMinutes; offset += slotMinutes) {
+    slots.push(addMinutesToTime(timeRange.start, offset));
+  }
+
+  return slots;
+};
+
+// The column after midnight: the next date, or the next day of the week
+export const getNextColumn = (column: string) =>
+  DAY_NAMES.includes(column)
+    ? DAY_NAMES[(DAY_NAMES.indexOf(column) + 1) % 7]
+    : addCalendarDays(column, 1);
+
+// Rounds an "HH:mm" time down to the nearest multiple of the slot length
+export const snapTimeToStep = (time: string, slotMinutes: number) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const totalMinutes = hours * 60 + minutes;
+  const snapped = totalMinutes - (totalMinutes % slotMinutes);
+  return format(
+    new Date(2000, 0, 1, Math.floor(snapped / 60), snapped % 60),
+    'HH:mm'
+  );
+};
+
+// Shifts an "HH:mm" time by the given minutes, wrapping around midnight
+export const addMinutesToTime = (time: string, amount: number) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const total = (((hours * 60 + minutes + amount) % 1440) + 1440) % 1440;
+  return format(
+    new Date(2000, 0, 1, Math.floor(total / 60), total % 60),
+    'HH:mm'
+  );
+};
+
+// e.g. "30 min", "1 hr", "1 hr 30 min"
+export const formatDuration = (totalMinutes: number) => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return [hours && `${hours} hr`, minutes && `${minutes} min`]
+    .filter(Boolean)
+    .join(' ');
+};
+
+// Weekly columns have no concrete date, so they are anchored to the current
+// week in the event's zone to get a realistic UTC offset.
+export const getColumnDate = (
+  column: string,
+  mode: EventMode,
+  timeZone: string,
+  now = new Date()
+) => {
+  if (mode !== 'weekly') return column;
+  const today = formatInTimeZone(now, timeZone);
+  return addCalendarDays(today.date, DAY_NAMES.indexOf(column) - today.weekday);
+};
+
+export const getSlotStart = (
+  column: string,
+  timeSlot: string,
+  mode: EventMode,
+  timeZone: string
+) => zonedTimeToUtc(getColumnDate(column, mode, timeZone), timeSlot, timeZone);
+
+export interface GridSlot {
+  key: string;
+  date: string;
+  time: string;
+}
+
+// A slot offered by one of the event's columns. Slots after midnight in an
+// overnight window are stored under the next day, so `date` is then the
+// column after `column`.
+export interface EventSlot extends GridSlot {
+  column: string;
+}
+
+export interface ViewerCell extends GridSlot {
+  // The viewer's own date (or day name) for the slot, which is the day after
+  // its grid column for the after-midnight part of an overnight event
+  localColumn: string;
+}
+
+export interface ViewerGrid {
+  columns: string[];
+  rows: string[];
+  // Keyed by getSlotKey(viewer column, viewer row)
+  cells: Record<string, ViewerCell>;
+}
+
+export const getEventSlotStart = (
+  slot: EventSlot,
+  mode: EventMode,
+  timeZone: string
+) => {
+  const columnDate = getColumnDate(slot.column, mode, timeZone);
+  return zonedTimeToUtc(
+    slot.date === slot.column ? columnDate : addCalendarDays(columnDate, 1),
+    slot.time,
+    timeZone
+  );
+};
+
+// Re-projects the event's slots onto the viewer's zone. Columns and rows are
+// the viewer's local dates (or day names) and times; each cell points back to
+// the event-zone slot key so votes from every zone land on the same instant.
+// Each event day stays in one column, even when it runs past midnight or the
+// viewer's offset pushes it across theirs: the viewer's day starts at the
+// local time of the event's earliest start instead of at midnight.
+export const buildViewerGrid = ({
+  mode,
+  slots,
+  timeZone,
+  viewerTimeZone,
+}: {
+  mode: EventMode;
+  slots: EventSlot[];
+  timeZone: string;
+  viewerTimeZone: string;
+}): ViewerGrid => {
+  const cells: Record<string, ViewerCell> = {};
+  const columnStarts = new Map<string, number>();
+  const rows = new Set<string>();
+
+  let dayStart = '00:00';
+  const sameDaySlots = slots.filter((slot) => slot.date === slot.column);
+  if (sameDaySlots.length) {
+    const firstSlot = sameDaySlots.reduce((earliest, slot) =>
+      slot.time < earliest.time ? slot : earliest
+    );
+    dayStart = formatInTimeZone(
+      getEventSlotStart(firstSlot, mode, timeZone),
+      viewerTimeZone
+    ).time;
+  }
+
+  for (const slot of slots) {
+    const start = getEventSlotStart(slot, mode, timeZone);
+    const local = formatInTimeZone(start, viewerTimeZone);
+    const localColumn =
+      mode === 'weekly' ? DAY_NAMES[local.weekday] : local.date;
+    const isPreviousNight = local.time < dayStart;
+    const viewerColumn = !isPreviousNight
+      ? localColumn
+      : mode === 'weekly'
+      ? DAY_NAMES[(local.weekday + 6) % 7]
+      : addCalendarDays(local.date, -1);
+
+    cells[getSlotKey(viewerColumn, local.time)] = {
+      key: slot.key,
+      date: slot.date,
+      time: slot.time,
+      localColumn,
+    };
+    rows.add(local.time);
+    const earliest = columnStarts.get(viewerColumn);
+    if (earliest === undefined || start.getTime() < earliest) {
+      columnStarts.set(viewerColumn, start.getTime());
+    }
+  }
+
+  const toRowOrder = (time: string) =>
+    (timeToMinutes(time) - timeToMinutes(dayStart) + 1440) % 1440;
+
+  return {
+    columns: Array.from(columnStarts.entries())
+      .sort((a, b) => a[1] - b[1])
+      .map(([column]) => column),
+    rows: Array.from(rows).sort((a, b) => toRowOrder(a) - toRowOrder(b)),
+    cells,
+  };
+};
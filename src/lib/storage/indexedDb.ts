@@ -0,0 +1,239 @@
+import type { EventInput, EventRecord } from '@/lib/events';
+import type { Availability, Responses } from '@/lib/availability';
+import { getResultsVisibility } from '@/lib/privacy';
+import { publishInMemory, subscribeInMemory } from '@/lib/realtime';
+import {
+  NameTakenError,
+  StorageBackend,
+  VoteAccess,
+} from '@/lib/storage/types';
+
+// Browser-local backend for deployments without a hosted database. Data stays
+// in this browser, so polls can only be shared between its tabs.
+
+interface StoredEvent extends EventRecord {
+  admin_token: string;
+  required_participants?: EventInput['required_participants'];
+}
+
+interface StoredVote {
+  event_id: string;
+  user_name: string;
+  availability: Availability;
+  edit_token: string | null;
+  created_at: string;
+}
+
+type StoreName = 'events' | 'votes';
+
+const DB_NAME = 'schedmeet';
+const DB_VERSION = 1;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        database.createObjectStore('events', { keyPath: 'id' });
+        const votes = database.createObjectStore('votes', {
+          keyPath: ['event_id', 'user_name'],
+        });
+        votes.createIndex('event_id', 'event_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const getStore = async (
+  name: StoreName,
+  mode: IDBTransactionMode = 'readonly'
+) => (await openDatabase()).transaction(name, mode).objectStore(name);
+
+const getStoredEvent = async (id: string) =>
+  (await toPromise((await getStore('events')).get(id))) as
+    | StoredEvent
+    | undefined;
+
+// Mirrors the hosted database, where admin_token is never readable and
+// required_participants only through listRequiredParticipants
+const toEventRecord = ({
+  admin_token,
+  required_participants,
+  ...event
+}: StoredEvent): EventRecord => event;
+
+const assertAdmin = async (id: string, adminToken: string) => {
+  const event = await getStoredEvent(id);
+  if (!event || event.admin_token !== adminToken) {
+    throw new Error('The admin link is no longer valid.');
+  }
+  return event;
+};
+
+const getStoredVotes = async (eventId: string) =>
+  (await toPromise(
+    (await getStore('votes')).index('event_id').getAll(eventId)
+  )) as StoredVote[];
+
+// Stays the same as others respond, like the row id hash the hosted
+// database derives pseudonyms from
+const getPseudonym = async (eventId: string, userName: string) => {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${eventId}:${userName}`)
+  );
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+  return `Participant ${hex.toUpperCase()}`;
+};
+
+// Mirrors can_see_responses and can_see_vote_names
+const getVisibility = (
+  event: StoredEvent | undefined,
+  votes: StoredVote[],
+  access: VoteAccess
+) =>
+  getResultsVisibility(event?.privacy, {
+    isOrganizer:
+      !!access.adminToken && event?.admin_token === access.adminToken,
+    hasResponded:
+      !!access.editToken &&
+      votes.some((vote) => vote.edit_token === access.editToken),
+  });
+
+// Mirrors list_event_responses: every response the caller may see, under
+// its real name or a "Participant 3F9A2C1B" pseudonym
+const getVisibleVotes = async (eventId: string, access: VoteAccess) => {
+  const votes = await getStoredVotes(eventId);
+  const { canSeeResults, canSeeNames } = getVisibility(
+    await getStoredEvent(eventId),
+    votes,
+    access
+  );
+  if (!canSeeResults) return [];
+  if (canSeeNames) return votes.map((vote) => ({ name: vote.user_name, vote }));
+  const named = await Promise.all(
+    votes.map(async (vote) => ({
+      name: await getPseudonym(eventId, vote.user_name),
+      vote,
+    }))
+  );
+  // Sorted by pseudonym so the order doesn't give anyone away
+  return named.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const indexedDbStorage: StorageBackend = {
+  getEvent: async (id) => {
+    const event = await getStoredEvent(id);
+    return event ? toEventRecord(event) : null;
+  },
+
+  getAdminEvent: async (id, adminToken) => {
+    const event = await getStoredEvent(id);
+    return event && event.admin_token === adminToken
+      ? toEventRecord(event)
+      : null;
+  },
+
+  createEvent: async (event, adminToken) => {
+    const id = crypto.randomUUID();
+    const stored: StoredEvent = {
+      ...event,
+      id,
+      admin_token: adminToken,
+      created_at: new Date().toISOString(),
+    };
+    await toPromise((await getStore('events', 'readwrite')).add(stored));
+    return id;
+  },
+
+  updateEvent: async (id, adminToken, changes) => {
+    const event = await assertAdmin(id, adminToken);
+    const updated: StoredEvent = { ...event, ...changes };
+    await toPromise((await getStore('events', 'readwrite')).put(updated));
+    return toEventRecord(updated);
+  },
+
+  listVotes: async (eventId, access = {}) => {
+    const responses: Responses = {};
+    (await getVisibleVotes(eventId, access)).forEach(({ name, vote }) => {
+      responses[name] = vote.availability || {};
+    });
+    return responses;
+  },
+
+  listRequiredParticipants: async (eventId, access = {}) => {
+    const required = (await getStoredEvent(eventId))?.required_participants;
+    return (await getVisibleVotes(eventId, access))
+      .filter(({ vote }) => !!required?.includes(vote.user_name))
+      .map(({ name }) => name);
+  },
+
+  getVote: async (eventId, userName, editToken) => {
+    const vote = (await toPromise(
+      (await getStore('votes')).get([eventId, userName])
+    )) as StoredVote | undefined;
+    if (!vote) return null;
+    const isOwnVote = !!editToken && vote.edit_token === editToken;
+    const { canSeeNames } = getVisibility(
+      await getStoredEvent(eventId),
+      await getStoredVotes(eventId),
+      { editToken }
+    );
+    return isOwnVote || canSeeNames ? vote.availability || {} : null;
+  },
+
+  upsertVote: async ({ eventId, userName, availability, editToken, isNew }) => {
+    const store = await getStore('votes', 'readwrite');
+    const existing = (await toPromise(store.get([eventId, userName]))) as
+      | StoredVote
+      | undefined;
+    // Same rule as the hosted database: a name can be claimed once, and an
+    // unlocked response (no edit token) can be claimed again, even by someone
+    // who couldn't see it
+    const isTaken = existing
+      ? !!existing.edit_token && existing.edit_token !== editToken
+      : !isNew;
+    if (isTaken) throw new NameTakenError(userName);
+
+    await toPromise(
+      store.put({
+        event_id: eventId,
+        user_name: userName,
+        availability,
+        edit_token: editToken,
+        created_at: existing?.created_at || new Date().toISOString(),
+      } as StoredVote)
+    );
+    publishInMemory(eventId, {
+      type: existing ? 'update' : 'insert',
+      userName,
+      availability,
+    });
+  },
+
+  setVoteEditToken: async (eventId, userName, adminToken, editToken) => {
+    await assertAdmin(eventId, adminToken);
+    const store = await getStore('votes', 'readwrite');
+    const vote = (await toPromise(store.get([eventId, userName]))) as
+      | StoredVote
+      | undefined;
+    if (!vote) throw new Error('The response could not be updated.');
+    await toPromise(store.put({ ...vote, edit_token: editToken }));
+  },
+
+  subscribeToVotes: subscribeInMemory,
+};
@@ -0,0 +1,281 @@
+import { getSupabase } from '@/lib/supabaseClient';
+import type {
+  Json,
+  Tables,
+  TablesInsert,
+  TablesUpdate,
+} from '@/lib/database.types';
+import {
+  EventInput,
+  EventRecord,
+  FinalSlot,
+  PUBLIC_EVENT_COLUMNS,
+  TimeRange,
+} from '@/lib/events';
+import type { EventMode } from '@/lib/slots';
+import type { Recurrence } from '@/lib/recurrence';
+import type { ResultsPrivacy } from '@/lib/privacy';
+import type { Availability, Responses } from '@/lib/availability';
+import { ADMIN_TOKEN_HEADER } from '@/lib/organizer';
+import { EDIT_TOKEN_HEADER } from '@/lib/participant';
+import {
+  NameTakenError,
+  StorageBackend,
+  VoteAccess,
+} from '@/lib/storage/types';
+
+type VoteRow = Pick<Tables<'votes'>, 'user_name' | 'availability'>;
+// The columns participants can read; see PUBLIC_EVENT_COLUMNS
+type EventRow = Omit<Tables<'events'>, 'admin_token' | 'required_participants'>;
+
+// JSON columns (time_range, time_windows, window_overrides, recurrence,
+// final_slot, availability) are typed loosely in the schema and precisely in
+// the app. The database checks their shape on write.
+const fromJson = <T>(value: Json) => value as unknown as T;
+const toJson = (value: object | null | undefined) =>
+  value === undefined ? undefined : (value as unknown as Json);
+
+const toEventRecord = (row: EventRow): EventRecord => ({
+  id: row.id,
+  name: row.name,
+  mode: row.mode as EventMode,
+  dates: row.dates,
+  days_of_week: row.days_of_week ?? undefined,
+  recurrence: fromJson<Recurrence | null>(row.recurrence),
+  time_range: fromJson<TimeRange>(row.time_range),
+  time_windows: fromJson<TimeRange[] | null>(row.time_windows),
+  window_overrides: fromJson<Record<string, TimeRange[]> | null>(
+    row.window_overrides
+  ),
+  timezone: row.timezone ?? undefined,
+  slot_minutes: row.slot_minutes ?? undefined,
+  final_slot: fromJson<FinalSlot | null>(row.final_slot),
+  privacy: row.privacy as ResultsPrivacy,
+  created_at: row.created_at,
+});
+
+// Only the given fields are set, so partial updates leave the rest alone
+const toEventRow = ({
+  recurrence,
+  time_range,
+  time_windows,
+  window_overrides,
+  final_slot,
+  ...columns
+}: Partial<EventInput>): TablesUpdate<'events'> => ({
+  ...columns,
+  recurrence: toJson(recurrence),
+  time_range: toJson(time_range),
+  time_windows: toJson(time_windows),
+  window_overrides: toJson(window_overrides),
+  final_slot: toJson(final_slot),
+});
+
+// Sends the tokens that decide which responses and names come back
+const withVoteAccess = <
+  Query extends { setHeader: (name: string, value: string) => Query }
+>(
+  query: Query,
+  access: VoteAccess
+) => {
+  let result = query;
+  if (access.adminToken) {
+    result = result.setHeader(ADMIN_TOKEN_HEADER, access.adminToken);
+  }
+  if (access.editToken) {
+    result = result.setHeader(EDIT_TOKEN_HEADER, access.editToken);
+  }
+  return result;
+};
+
+const toResponses = (rows: VoteRow[]) => {
+  const responses: Responses = {};
+  rows.forEach((vote) => {
+    responses[vote.user_name] = (vote.availability as Availability) || {};
+  });
+  return responses;
+};
+
+export const supabaseStorage: StorageBackend = {
+  getEvent: async (id) => {
+    const { data, error } = await getSupabase()
+      .from('events')
+      .select(PUBLIC_EVENT_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toEventRecord(data) : null;
+  },
+
+  // admin_token can't be read or filtered on, so the database checks it
+  getAdminEvent: async (id, adminToken) => {
+    const { data: isAdmin, error } = await getSupabase()
+      .rpc('is_event_admin', { target_event_id: id })
+      .setHeader(ADMIN_TOKEN_HEADER, adminToken);
+    if (error) throw error;
+    return isAdmin ? supabaseStorage.getEvent(id) : null;
+  },
+
+  createEvent: async (event, adminToken) => {
+    const row: TablesInsert<'events'> = {
+      ...toEventRow(event),
+      name: event.name,
+      time_range: toJson(event.time_range),
+      admin_token: adminToken,
+    };
+    const { data, error } = await getSupabase()
+      .from('events')
+      .insert([row])
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id;
+  },
+
+  updateEvent: async (id, adminToken, changes) => {
+    const { data, error } = await getSupabase()
+      .from('events')
+      .update(toEventRow(changes))
+      .eq('id', id)
+      .setHeader(ADMIN_TOKEN_HEADER, adminToken)
+      .select(PUBLIC_EVENT_COLUMNS);
+    if (error) throw error;
+    if (!data?.length) throw new Error('The admin link is no longer valid.');
+    return toEventRecord(data[0]);
+  },
+
+  // The database decides what the caller may see from the tokens they send
+  listVotes: async (eventId, access = {}) => {
+    const { data, error } = await withVoteAccess(
+      getSupabase().rpc('list_event_responses', { target_event_id: eventId }),
+      access
+    );
+    if (error) throw error;
+    return toResponses(data || []);
+  },
+
+  listRequiredParticipants: async (eventId, access = {}) => {
+    const { data, error } = await withVoteAccess(
+      getSupabase().rpc('list_required_participants', {
+        target_event_id: eventId,
+      }),
+      access
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  getVote: async (eventId, userName, editToken) => {
+    let query = getSupabase()
+      .from('votes')
+      .select('availability')
+      .eq('event_id', eventId)
+      .eq('user_name', userName);
+    if (editToken) query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return data ? (data.availability as Availability) || {} : null;
+  },
+
+  upsertVote: async ({ eventId, userName, availability, editToken, isNew }) => {
+    const { data, error } = isNew
+      ? await getSupabase()
+          .from('votes')
+          .insert([
+            {
+              event_id: eventId,
+              user_name: userName,
+              availability,
+              edit_token: editToken,
+            },
+          ])
+          .setHeader(EDIT_TOKEN_HEADER, editToken)
+          .select('user_name')
+      : await getSupabase()
+          .from('votes')
+          .update({ availability, edit_token: editToken })
+          .eq('event_id', eventId)
+          .eq('user_name', userName)
+          .setHeader(EDIT_TOKEN_HEADER, editToken)
+          .select('user_name');
+
+    // A duplicate insert may be a name the organizer unlocked, which events
+    // that hide names don't let us see, let alone update directly
+    if (error?.code === '23505') {
+      const { data: isClaimed, error: claimError } = await getSupabase()
+        .rpc('claim_unlocked_response', {
+          target_event_id: eventId,
+          target_user_name: userName,
+          new_availability: availability,
+        })
+        .setHeader(EDIT_TOKEN_HEADER, editToken);
+      if (claimError) throw claimError;
+      if (!isClaimed) throw new NameTakenError(userName);
+      return;
+    }
+    // An update that matched no row we own means someone else already
+    // responded under this name
+    if (!error && !data?.length) throw new NameTakenError(userName);
+    if (error) throw error;
+  },
+
+  setVoteEditToken: async (eventId, userName, adminToken, editToken) => {
+    const { data, error } = await getSupabase()
+      .from('votes')
+      .update({ edit_token: editToken })
+      .eq('event_id', eventId)
+      .eq('user_name', userName)
+      .setHeader(ADMIN_TOKEN_HEADER, adminToken)
+      .select('user_name');
+    if (error) throw error;
+    if (!data?.length) throw new Error('The response could not be updated.');
+  },
+
+  subscribeToVotes: (eventId, onChange) => {
+    const supabase = getSupabase();
+    const channel = supabase
+      .channel(`votes:${eventId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'votes',
+          filter: `event_id=eq.${eventId}`,
+        },
+        ({ new: row }) =>
+          onChange({
+            type: 'insert',
+            userName: (row as VoteRow).user_name,
+            availability: ((row as VoteRow).availability as Availability) || {},
+          })
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'votes',
+          filter: `event_id=eq.${eventId}`,
+        },
+        ({ new: row }) =>
+          onChange({
+            type: 'update',
+            userName: (row as VoteRow).user_name,
+            availability: ((row as VoteRow).availability as Availability) || {},
+          })
+      )
+      // Realtime can't filter deletes, and only sends the removed row's id,
+      // so any removal has listeners refetch
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'votes' },
+        () => onChange({ type: 'delete' })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
@@ -0,0 +1,78 @@
+import type { EventInput, EventRecord } from '@/lib/events';
+import type { Availability, Responses } from '@/lib/availability';
+import type { VoteChangeListener } from '@/lib/realtime';
+
+// Someone else already responded under this name and holds its edit token
+export class NameTakenError extends Error {
+  constructor(userName: string) {
+    super(`"${userName}" has already responded to this event`);
+    this.name = 'NameTakenError';
+  }
+}
+
+export interface VoteInput {
+  eventId: string;
+  userName: string;
+  availability: Availability;
+  editToken: string;
+  // Whether this claims the name rather than updating an earlier response
+  isNew: boolean;
+}
+
+// Credentials that reveal responses an event's privacy setting hides: the
+// organizer's admin token, or the caller's own edit token once they've
+// responded
+export interface VoteAccess {
+  adminToken?: string | null;
+  editToken?: string | null;
+}
+
+// Everything the app reads or writes. Implementations never expose admin or
+// edit tokens and enforce them the same way the hosted database does.
+export interface StorageBackend {
+  getEvent: (id: string) => Promise<EventRecord | null>;
+  // Only returns the event when the admin token matches
+  getAdminEvent: (
+    id: string,
+    adminToken: string
+  ) => Promise<EventRecord | null>;
+  // Returns the new event's id
+  createEvent: (event: EventInput, adminToken: string) => Promise<string>;
+  updateEvent: (
+    id: string,
+    adminToken: string,
+    changes: Partial<EventInput>
+  ) => Promise<EventRecord>;
+  // Names are replaced with stable pseudonyms ("Participant 3F9A2C1B") when
+  // the caller may not see them, and nothing is returned when results are
+  // hidden from them
+  listVotes: (eventId: string, access?: VoteAccess) => Promise<Responses>;
+  // Must-attend people who have responded, named the way listVotes names them
+  listRequiredParticipants: (
+    eventId: string,
+    access?: VoteAccess
+  ) => Promise<string[]>;
+  // Unless the event shows names, only returns the caller's own response
+  getVote: (
+    eventId: string,
+    userName: string,
+    editToken?: string | null
+  ) => Promise<Availability | null>;
+  // Throws NameTakenError when the name belongs to someone else. A new
+  // response takes over a name the organizer unlocked.
+  upsertVote: (vote: VoteInput) => Promise<void>;
+  // Organizer-only: replaces a response's edit token, or clears it with null
+  // so the next submission under the name claims it
+  setVoteEditToken: (
+    eventId: string,
+    userName: string,
+    adminToken: string,
+    editToken: string | null
+  ) => Promise<void>;
+  // Calls onChange whenever someone adds, edits or removes a response.
+  // Returns a function that stops listening.
+  subscribeToVotes: (
+    eventId: string,
+    onChange: VoteChangeListener
+  ) => () => void;
+}
@@ -1,10 +1,20 @@
-import { createClient } from '@supabase/supabase-js';
+import { SupabaseClient, createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+export const isSupabaseConfigured = !!supabaseUrl && !!supabaseKey;
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+let supabase: SupabaseClient<Database> | null = null;
+
+// Created on first use so the app can run on local storage without Supabase
+export const getSupabase = () => {
+  if (!isSupabaseConfigured) {
+    throw new Error('Missing Supabase environment variables');
+  }
+  if (!supabase) {
+    supabase = createClient<Database>(supabaseUrl, supabaseKey);
+  }
+  return supabase;
+};
@@ -0,0 +1,118 @@
+import { CalendarDate, getCalendarWeekday } from '@/lib/calendarDate';
+
+export interface ZonedParts {
+  date: CalendarDate;
+  time: string; // HH:mm
+  weekday: number; // 0 = Sunday
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getTimeZoneOptions = (): string[] => {
+  const supportedValuesOf = (
+    Intl as { supportedValuesOf?: (key: string) => string[] }
+  ).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  const browserZone = getBrowserTimeZone();
+  return Array.from(new Set([browserZone, 'UTC', ...zones]));
+};
+
+const getWallClock = (instant: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(instant)
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = parseInt(value, 10);
+    });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+  };
+};
+
+// Offset of the zone from UTC in minutes at the given instant (e.g. 420 for Asia/Ho_Chi_Minh)
+export const getTimeZoneOffset = (timeZone: string, instant: Date) => {
+  const { year, month, day, hour, minute } = getWallClock(instant, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const truncated = Math.floor(instant.getTime() / 60000) * 60000;
+  return Math.round((wallClockAsUtc - truncated) / 60000);
+};
+
+// Converts a wall-clock date and time in the given zone to an absolute instant
+export const zonedTimeToUtc = (
+  date: CalendarDate,
+  time: string,
+  timeZone: string
+) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const offset = getTimeZoneOffset(timeZone, new Date(wallClockAsUtc));
+  let result = wallClockAsUtc - offset * 60000;
+  // Re-check once in case the guess landed on the other side of a DST change
+  const correctedOffset = getTimeZoneOffset(timeZone, new Date(result));
+  if (correctedOffset !== offset) {
+    result = wallClockAsUtc - correctedOffset * 60000;
+  }
+  return new Date(result);
+};
+
+export const formatInTimeZone = (
+  instant: Date,
+  timeZone: string
+): ZonedParts => {
+  const { year, month, day, hour, minute } = getWallClock(instant, timeZone);
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  return {
+    date,
+    time: `${pad(hour)}:${pad(minute)}`,
+    weekday: getCalendarWeekday(date),
+  };
+};
+
+// e.g. "GMT+7", "GMT-3:30"
+export const formatTimeZoneOffset = (timeZone: string, at = new Date()) => {
+  const offset = getTimeZoneOffset(timeZone, at);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `GMT${sign}${hours}${minutes ? `:${pad(minutes)}` : ''}`;
+};
+
+export const formatTimeZoneLabel = (timeZone: string, at = new Date()) =>
+  `${timeZone.replace(/_/g, ' ')} (${formatTimeZoneOffset(timeZone, at)})`;
@@ -0,0 +1,450 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ArrowLeft,
+  Copy,
+  AlertTriangle,
+  Link as LinkIcon,
+  Star,
+  Unlock,
+} from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import EventForm from "@/components/EventForm";
+import { EventInput, findOrphanedSlots } from "@/lib/events";
+import {
+  generateSecretToken,
+  getAdminToken,
+  getAdminUrl,
+  saveAdminToken,
+} from "@/lib/organizer";
+import { getEditUrl } from "@/lib/participant";
+import { getResultsVisibility } from "@/lib/privacy";
+import { setVoteEditToken } from "@/lib/repository";
+import {
+  useAdminEvent,
+  useRequiredParticipants,
+  useUpdateEvent,
+  useVotes,
+} from "@/hooks/use-event";
+
+const EventAdminPage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || (id ? getAdminToken(id) : null);
+  const [pendingUpdate, setPendingUpdate] = useState<{
+    event: EventInput;
+    orphaned: Record<string, string[]>;
+    isMovingResponses: boolean;
+  } | null>(null);
+  const eventQuery = useAdminEvent(id, token);
+  const eventData = eventQuery.data || null;
+  // Responses are only loaded once the admin token checks out
+  const votesQuery = useVotes(eventData ? id : undefined, {
+    adminToken: token,
+  });
+  const responses = votesQuery.data || {};
+  const requiredQuery = useRequiredParticipants(eventData ? id : undefined, {
+    adminToken: token,
+  });
+  const updateEvent = useUpdateEvent(id, token);
+  const isLoading = eventQuery.isLoading || votesQuery.isLoading;
+  const isSaving = updateEvent.isPending;
+
+  useEffect(() => {
+    if (id && token && eventData) saveAdminToken(id, token);
+  }, [id, token, eventData]);
+
+  const handleCopy = (url: string, description: string) => {
+    navigator.clipboard.writeText(url);
+    toast({ title: "URL copied!", description });
+  };
+
+  const saveEvent = async (event: EventInput) => {
+    try {
+      await updateEvent.mutateAsync(event);
+    } catch (error) {
+      toast({
+        title: "Error updating event",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Event updated!",
+      description: "Participants will see the new schedule right away.",
+    });
+  };
+
+  // Gives a participant who lost their edit link a fresh one
+  const handleReissueEditLink = async (userName: string) => {
+    const editToken = generateSecretToken();
+    try {
+      await setVoteEditToken(id, userName, token, editToken);
+    } catch (error) {
+      toast({
+        title: "Error creating edit link",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    handleCopy(
+      getEditUrl(id, userName, editToken),
+      `Send this private edit link to ${userName}. Their old link no longer works.`
+    );
+  };
+
+  // Clears the lock so the next person to submit under this name claims it
+  const handleUnlockName = async (userName: string) => {
+    try {
+      await setVoteEditToken(id, userName, token, null);
+    } catch (error) {
+      toast({
+        title: "Error unlocking name",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Name unlocked",
+      description: `The next response submitted as ${userName} will take it over.`,
+    });
+  };
+
+  // Best times and the heatmap only count slots every required person can make
+  const handleToggleRequired = async (userName: string) => {
+    const current = requiredQuery.data || [];
+    const required = current.includes(userName)
+      ? current.filter((name) => name !== userName)
+      : [...current, userName];
+    try {
+      await updateEvent.mutateAsync({ required_participants: required });
+    } catch (error) {
+      toast({
+        title: "Error updating event",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = (event: EventInput) => {
+    // Votes are never rewritten; selections that no longer fit are flagged instead
+    const orphaned = findOrphanedSlots(responses, event);
+    // Responses are stored as clock times in the event's zone, so a new zone
+    // moves every one of them to a different moment
+    const isMovingResponses =
+      Object.keys(responses).length > 0 &&
+      !!eventData?.timezone &&
+      event.timezone !== eventData.timezone;
+    if (Object.keys(orphaned).length > 0 || isMovingResponses) {
+      setPendingUpdate({ event, orphaned, isMovingResponses });
+      return;
+    }
+    saveEvent(event);
+  };
+
+  if (!isLoading && !eventData) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-green-50">
+        <Card className="w-full max-w-md">
+          <CardContent className="text-center py-8">
+            <h2 className="text-xl font-semibold mb-2">Invalid admin link</h2>
+            <p className="text-gray-600 mb-4">
+              This admin link is incorrect or the event has been removed.
+            </p>
+            <Button onClick={() => navigate("/")} data-testid="go-home-button">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Go Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const flagged = eventData ? findOrphanedSlots(responses, eventData) : {};
+  // Anonymous events hide names from the organizer too, so there is no one to
+  // star or send a link to
+  const { canSeeNames } = getResultsVisibility(eventData?.privacy, {
+    isOrganizer: true,
+    hasResponded: false,
+  });
+  const isRequired = (userName: string) =>
+    !!requiredQuery.data?.includes(userName);
+  const participantUrl = `${window.location.origin}/event/${id}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
+      <div className="container mx-auto px-4 py-8">
+        <Button
+          variant="ghost"
+          onClick={() => navigate(`/event/${id}`)}
+          className="mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Event
+        </Button>
+        {isLoading ? (
+          <div className="space-y-4 max-w-2xl">
+            <Skeleton className="h-8 w-64" />
+            <Skeleton className="h-48 w-full" />
+            <Skeleton className="h-96 w-full" />
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-1 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Links</CardTitle>
+                  <CardDescription>
+                    Keep the admin link private. Anyone with it can edit this
+                    event.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <strong className="text-sm">Participant link</strong>
+                    <div className="flex gap-2">
+                      <Input readOnly value={participantUrl} />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() =>
+                          handleCopy(
+                            participantUrl,
+                            "Share this link with participants."
+                          )
+                        }
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <strong className="text-sm">Admin link</strong>
+                    <div className="flex gap-2">
+                      <Input readOnly value={getAdminUrl(id, token)} />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() =>
+                          handleCopy(
+                            getAdminUrl(id, token),
+                            "Keep this link somewhere safe."
+                          )
+                        }
+                        data-testid="copy-admin-link-button"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Participants</CardTitle>
+                  <CardDescription>
+                    Each response is locked to the person who submitted it. Help
+                    someone who lost their edit link here, or star the people
+                    who must attend.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {Object.keys(responses).length === 0 && (
+                    <p className="text-sm text-gray-500">No responses yet.</p>
+                  )}
+                  {!canSeeNames && Object.keys(responses).length > 0 && (
+                    <p className="text-sm text-gray-500">
+                      This event is anonymous, so responses are listed without
+                      names.
+                    </p>
+                  )}
+                  {Object.keys(responses).map((userName) => (
+                    <div
+                      key={userName}
+                      className="flex items-center justify-between gap-2"
+                    >
+                      <span className="truncate">{userName}</span>
+                      {canSeeNames && (
+                        <div className="flex gap-1">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            title={
+                              isRequired(userName)
+                                ? "Make optional"
+                                : "Mark as required"
+                            }
+                            onClick={() => handleToggleRequired(userName)}
+                            aria-pressed={isRequired(userName)}
+                            data-testid={`toggle-required-${userName}`}
+                          >
+                            <Star
+                              className={cn(
+                                "w-4 h-4",
+                                isRequired(userName) &&
+                                  "fill-amber-400 text-amber-500"
+                              )}
+                            />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            title="Copy a new edit link"
+                            onClick={() => handleReissueEditLink(userName)}
+                            data-testid={`reissue-edit-link-${userName}`}
+                          >
+                            <LinkIcon className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            title="Unlock name"
+                            onClick={() => handleUnlockName(userName)}
+                            data-testid={`unlock-name-${userName}`}
+                          >
+                            <Unlock className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              {Object.keys(flagged).length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <AlertTriangle className="w-5 h-5 text-amber-500" />
+                      Responses outside the schedule
+                    </CardTitle>
+                    <CardDescription>
+                      These participants selected times that are no longer part
+                      of the event. Ask them to review their availability.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {Object.entries(flagged).map(([userName, keys]) => (
+                      <div
+                        key={userName}
+                        className="flex items-center justify-between"
+                      >
+                        <span>{userName}</span>
+                        <Badge variant="outline">
+                          {keys.length} slot{keys.length !== 1 ? "s" : ""}
+                        </Badge>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+
+            <div className="lg:col-span-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Edit Event</CardTitle>
+                  <CardDescription>
+                    Change the name, dates or time window of your poll
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {eventData && (
+                    <EventForm
+                      initialValues={eventData}
+                      submitLabel="Save Changes"
+                      isSubmitting={isSaving}
+                      onSubmit={handleSubmit}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog
+        open={!!pendingUpdate}
+        onOpenChange={(open) => !open && setPendingUpdate(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingUpdate?.isMovingResponses
+                ? "Changing the time zone moves existing responses"
+                : "Some responses fall outside the new schedule"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingUpdate?.isMovingResponses
+                ? `Responses keep their clock times, so a slot picked at 9:00 in ${eventData?.timezone} becomes 9:00 in ${pendingUpdate.event.timezone}. Ask participants to check their availability afterwards.`
+                : "Their existing selections are kept but will no longer appear on the grid until the schedule covers them again."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingUpdate?.isMovingResponses &&
+            Object.keys(pendingUpdate.orphaned).length > 0 && (
+              <p className="text-sm text-gray-600">
+                Some selections also fall outside the new schedule and will no
+                longer appear on the grid:
+              </p>
+            )}
+          <div className="space-y-1 text-sm">
+            {pendingUpdate &&
+              Object.entries(pendingUpdate.orphaned).map(([userName, keys]) => (
+                <div key={userName}>
+                  • {userName} ({keys.length} slot
+                  {keys.length !== 1 ? "s" : ""})
+                </div>
+              ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                saveEvent(pendingUpdate.event);
+                setPendingUpdate(null);
+              }}
+              data-testid="confirm-save-button"
+            >
+              Save anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EventAdminPage;
@@ -1,5 +1,6 @@
-import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useState, useEffect, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -10,82 +11,238 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Share2, Copy, ArrowLeft, Users } from "lucide-react";
-import { format, parse } from "date-fns";
+import {
+  Share2,
+  Copy,
+  ArrowLeft,
+  Users,
+  Settings,
+  Lock,
+  Undo2,
+  Redo2,
+  CheckCheck,
+  Eraser,
+} from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import AvailabilityGrid from "@/components/AvailabilityGrid";
-import { supabase } from "@/lib/supabaseClient";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
-import { Switch } from "@/components/ui/switch";
-
-interface EventData {
-  id: string;
-  name: string;
-  mode?: "specific" | "weekly";
-  dates: string[];
-  days_of_week?: number[];
-  time_range: { start: string; end: string };
-  responses: Record<string, Record<string, boolean>>;
-  createdAt: string;
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ScheduledBanner from "@/components/ScheduledBanner";
+import AddToCalendarMenu from "@/components/AddToCalendarMenu";
+import type { CalendarMeeting } from "@/lib/calendar";
+import TimeZoneSelector from "@/components/TimeZoneSelector";
+import BestWindows from "@/components/BestWindows";
+import ParticipantFilter from "@/components/ParticipantFilter";
+import CalendarImportDialog from "@/components/CalendarImportDialog";
+import ExportResultsMenu from "@/components/ExportResultsMenu";
+import { findBestWindows, getLongestRunMinutes } from "@/lib/bestWindows";
+import { getChangedSlotKeys } from "@/lib/realtime";
+import {
+  DAY_NAMES,
+  DEFAULT_SLOT_MINUTES,
+  formatDuration,
+  getSlotKey,
+} from "@/lib/slots";
+import { formatCalendarDate } from "@/lib/calendarDate";
+import { formatRecurrence } from "@/lib/recurrence";
+import { PRIVACY_OPTIONS, getResultsVisibility } from "@/lib/privacy";
+import { formatTimeZoneLabel, getBrowserTimeZone } from "@/lib/timezone";
+import {
+  EventRecord,
+  FinalSlot,
+  formatTimeRange,
+  getEventColumns,
+  getEventSlots,
+  getEventWindows,
+  getFinalSlotKeys,
+  getRequiredParticipants,
+} from "@/lib/events";
+import {
+  generateSecretToken,
+  getAdminPath,
+  getAdminToken,
+} from "@/lib/organizer";
+import {
+  forgetName,
+  getEditToken,
+  getEditUrl,
+  getRememberedName,
+  rememberName,
+  saveEditToken,
+} from "@/lib/participant";
+import { Availability, Responses } from "@/lib/availability";
+import { NameTakenError, getVote, subscribeToVotes } from "@/lib/repository";
+import {
+  eventKeys,
+  useEvent,
+  useSubmitVote,
+  useUpdateEvent,
+  useRequiredParticipants,
+  useVotes,
+} from "@/hooks/use-event";
+import { useUndoableState } from "@/hooks/use-undoable-state";
+
+interface EventData extends EventRecord {
+  responses: Responses;
 }
 
 const EventPage = () => {
   const { id } = useParams();
   const navigate = useNavigate();
-  const [eventData, setEventData] = useState<EventData | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   const [userName, setUserName] = useState("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [userAvailability, setUserAvailability] = useState<
-    Record<string, boolean>
-  >({});
+  // Grid edits can be undone; loading a saved response starts a new history
+  const {
+    value: userAvailability,
+    setValue: setUserAvailability,
+    resetValue: resetUserAvailability,
+    undo: undoAvailability,
+    redo: redoAvailability,
+    canUndo: canUndoAvailability,
+    canRedo: canRedoAvailability,
+  } = useUndoableState<Availability>({});
   const [hasEnteredName, setHasEnteredName] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [userNameError, setUserNameError] = useState<string | null>(null);
-  const [showBestOnly, setShowBestOnly] = useState(false);
   const [isScheduling, setIsScheduling] = useState(false);
   const [scheduledSlot, setScheduledSlot] = useState<{
     date: string;
     time: string;
   } | null>(null);
+  const [viewerTimeZone, setViewerTimeZone] = useState(getBrowserTimeZone);
+  const [meetingDuration, setMeetingDuration] = useState<number | null>(null);
+  // The grid is locked once a time is finalized unless the participant opts out
+  const [isUnlockedAfterFinal, setIsUnlockedAfterFinal] = useState(false);
+  const [excludedParticipants, setExcludedParticipants] = useState<string[]>(
+    []
+  );
+  const [hoveredParticipant, setHoveredParticipant] = useState<string | null>(
+    null
+  );
+  const [isOverlapOnly, setIsOverlapOnly] = useState(false);
+  // Cells that just changed for someone else, flashed briefly
+  const [changedKeys, setChangedKeys] = useState<Set<string>>(new Set());
+  const queryClient = useQueryClient();
+  const eventQuery = useEvent(id);
+  const adminToken = id ? getAdminToken(id) : null;
+  const editToken =
+    id && hasSubmitted ? getEditToken(id, userName.trim()) : null;
+  // Sent so the database can show the organizer names, and people who have
+  // responded the results, when the event hides them
+  const voteAccess = { adminToken, editToken };
+  const votesQuery = useVotes(id, voteAccess);
+  const requiredQuery = useRequiredParticipants(id, voteAccess);
+  const submitVote = useSubmitVote(id, voteAccess);
+  const { canSeeResults, canSeeNames } = getResultsVisibility(
+    eventQuery.data?.privacy,
+    { isOrganizer: !!adminToken, hasResponded: !!editToken }
+  );
+  const updateEvent = useUpdateEvent(id, adminToken);
+  const isLoading = eventQuery.isLoading || votesQuery.isLoading;
+  const isSubmitting = submitVote.isPending;
+  const eventData: EventData | null = eventQuery.data
+    ? { ...eventQuery.data, responses: votesQuery.data || {} }
+    : null;
 
+  // Merge other participants' responses in as they arrive
   useEffect(() => {
-    const fetchEvent = async () => {
-      setIsLoading(true);
-      if (id) {
-        const { data, error } = await supabase
-          .from("events")
-          .select("*")
-          .eq("id", id)
-          .single();
-        if (data) {
-          // Fetch votes for this event
-          const { data: votesData } = await supabase
-            .from("votes")
-            .select("*")
-            .eq("event_id", id);
-          // Merge votes into responses
-          const responses: Record<string, Record<string, boolean>> = {};
-          if (votesData) {
-            votesData.forEach(
-              (vote: {
-                user_name: string;
-                availability: Record<string, boolean>;
-              }) => {
-                responses[vote.user_name] = vote.availability || {};
-              }
-            );
-          }
-          setEventData({ ...data, responses });
+    if (!id) return;
+    const votesKey = eventKeys.votes(id, { adminToken, editToken });
+    let clearTimer: ReturnType<typeof setTimeout>;
+    const unsubscribe = subscribeToVotes(id, (change) => {
+      // Removals don't say whose response it was, so refetch the list
+      if (change.type === "delete") {
+        queryClient.invalidateQueries({ queryKey: eventKeys.votes(id) });
+        return;
+      }
+      // Changes carry real names, so refetch what this visitor may see
+      if (!canSeeNames) {
+        queryClient.invalidateQueries({ queryKey: eventKeys.votes(id) });
+        if (change.userName !== getRememberedName(id)) {
+          toast({ title: "Someone updated their availability" });
         }
+        return;
       }
-      setIsLoading(false);
+      const previous =
+        queryClient.getQueryData<Responses>(votesKey)?.[change.userName];
+      queryClient.setQueryData<Responses>(votesKey, (responses = {}) => ({
+        ...responses,
+        [change.userName]: change.availability,
+      }));
+
+      setChangedKeys(
+        new Set(getChangedSlotKeys(previous, change.availability))
+      );
+      clearTimeout(clearTimer);
+      clearTimer = setTimeout(() => setChangedKeys(new Set()), 2000);
+
+      if (change.userName === getRememberedName(id)) return;
+      toast({
+        title:
+          change.type === "insert"
+            ? `${change.userName} just added availability`
+            : `${change.userName} updated their availability`,
+      });
+    });
+    return () => {
+      clearTimeout(clearTimer);
+      unsubscribe();
     };
-    fetchEvent();
-  }, [id]);
+  }, [id, queryClient, adminToken, editToken, canSeeNames]);
+
+  // Pre-populate the grid with the participant's previous vote, if any
+  const loadExistingResponse = useCallback(
+    async (name: string) => {
+      let availability: Availability | null = null;
+      try {
+        availability = await getVote(id, name, getEditToken(id, name));
+      } catch (error) {
+        // Start from an empty grid rather than leaving the name form stuck
+        toast({
+          title: "Couldn't load your previous response",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+      if (availability) {
+        resetUserAvailability(availability);
+        setHasSubmitted(true);
+        setIsEditing(true);
+      } else {
+        resetUserAvailability({});
+        setHasSubmitted(false);
+        setIsEditing(false);
+      }
+    },
+    [id, resetUserAvailability]
+  );
+
+  useEffect(() => {
+    if (!id) return;
+    // Opening a private edit link restores the name and its edit token
+    const linkName = searchParams.get("name");
+    const linkToken = searchParams.get("token");
+    if (linkName && linkToken) {
+      saveEditToken(id, linkName, linkToken);
+      rememberName(id, linkName);
+      setSearchParams({}, { replace: true });
+    }
+    const rememberedName = getRememberedName(id);
+    if (rememberedName) {
+      setUserName(rememberedName);
+      setHasEnteredName(true);
+      loadExistingResponse(rememberedName);
+    }
+  }, [id, loadExistingResponse, searchParams, setSearchParams]);
 
   const handleShareUrl = () => {
     const url = window.location.href;
@@ -131,27 +288,37 @@ const EventPage = () => {
 
     if (!eventData) return;
 
-    setIsSubmitting(true);
-
-    // Insert or update vote in Supabase
-    const { error } = await supabase.from("votes").upsert([
-      {
-        event_id: id,
-        user_name: sanitizedUserName,
+    // The first submission claims the name with a new edit token; later
+    // updates must present the same token
+    const editToken =
+      getEditToken(id, sanitizedUserName) || generateSecretToken();
+    try {
+      await submitVote.mutateAsync({
+        userName: sanitizedUserName,
         availability: userAvailability,
-      },
-    ]);
-
-    if (error) {
-      toast({
-        title: "Error submitting availability",
-        description: error.message,
-        variant: "destructive",
+        editToken,
+        isNew: !hasSubmitted,
       });
-      setIsSubmitting(false);
+    } catch (error) {
+      toast(
+        error instanceof NameTakenError
+          ? {
+              title: "This name is already taken",
+              description:
+                "Someone has already responded with this name. If it's you, open your private edit link or ask the organizer to unlock it.",
+              variant: "destructive",
+            }
+          : {
+              title: "Error submitting availability",
+              description: error.message,
+              variant: "destructive",
+            }
+      );
       return;
     }
 
+    saveEditToken(id, sanitizedUserName, editToken);
+
     toast({
       title: "Availability submitted!",
       description: "Your availability has been recorded successfully.",
@@ -159,57 +326,49 @@ const EventPage = () => {
 
     setHasSubmitted(true);
     setIsEditing(false);
-
-    // Refetch event and votes
-    const { data, error: fetchError } = await supabase
-      .from("events")
-      .select("*")
-      .eq("id", id)
-      .single();
-    if (data) {
-      const { data: votesData } = await supabase
-        .from("votes")
-        .select("*")
-        .eq("event_id", id);
-      const responses: Record<string, Record<string, boolean>> = {};
-      if (votesData) {
-        votesData.forEach(
-          (vote: {
-            user_name: string;
-            availability: Record<string, boolean>;
-          }) => {
-            responses[vote.user_name] = vote.availability || {};
-          }
-        );
-      }
-      setEventData({ ...data, responses });
-    }
-    setIsSubmitting(false);
   };
 
-  const generateTimeSlots = () => {
-    if (!eventData) return [];
+  const slotMinutes = eventData?.slot_minutes || DEFAULT_SLOT_MINUTES;
 
-    const slots = [];
-    const startTime = parse(eventData.time_range.start, "HH:mm", new Date());
-    const endTime = parse(eventData.time_range.end, "HH:mm", new Date());
+  const eventSlots = eventData ? getEventSlots(eventData) : [];
 
-    const currentTime = new Date(startTime);
+  const finalSlot = eventData?.final_slot || null;
+  const isGridLocked = !!finalSlot && !isUnlockedAfterFinal;
+  const isEditingGrid =
+    hasEnteredName && !(hasSubmitted && !isEditing) && !isGridLocked;
 
-    while (currentTime < endTime) {
-      const timeString = format(currentTime, "HH:mm");
-      slots.push(timeString);
-      currentTime.setMinutes(currentTime.getMinutes() + 30);
-    }
+  // Ctrl+Z and Ctrl+Shift+Z (Cmd on a Mac) step through grid edits
+  useEffect(() => {
+    if (!isEditingGrid) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement;
+      if (target.closest?.("input, textarea, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undoAvailability();
+      } else if (key === "z" || key === "y") {
+        e.preventDefault();
+        redoAvailability();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isEditingGrid, undoAvailability, redoAvailability]);
 
-    return slots;
+  const handleSelectAll = () => {
+    setUserAvailability(
+      Object.fromEntries(eventSlots.map((slot) => [slot.key, true]))
+    );
   };
 
   const totalParticipants = eventData
     ? Object.keys(eventData.responses).length
     : 0;
 
-  const handleNameSubmit = () => {
+  const handleNameSubmit = async () => {
     const sanitizedUserName = userName.trim();
 
     if (!sanitizedUserName) {
@@ -233,60 +392,34 @@ const EventPage = () => {
     }
 
     setHasEnteredName(true);
+    rememberName(id, sanitizedUserName);
+    await loadExistingResponse(sanitizedUserName);
   };
 
-  // Helper to get best slots
-  function getBestTimes() {
-    if (!eventData) return [];
-    const slotCounts = {};
-    const slots = generateTimeSlots();
-    const dates = gridColumns;
-
-    // Count votes for each slot
-    for (const date of dates) {
-      for (const time of slots) {
-        const key = `${date}_${time}`;
-        let count = 0;
-        for (const user in eventData.responses) {
-          if (eventData.responses[user][key]) count++;
-        }
-        slotCounts[key] = count;
-      }
-    }
+  const handleCopyEditLink = () => {
+    navigator.clipboard.writeText(getEditUrl(id, userName.trim(), editToken));
+    toast({
+      title: "Edit link copied!",
+      description: "Keep it private. It lets you change your response later.",
+    });
+  };
 
-    // Find max count
-    const max = Math.max(...(Object.values(slotCounts) as number[]));
-    if (max === 0) return [];
-
-    // Collect all slots with max count
-    const best = [];
-    for (const [key, count] of Object.entries(slotCounts)) {
-      if (count === max) {
-        const idx = key.lastIndexOf("_");
-        const date = key.slice(0, idx);
-        const time = key.slice(idx + 1);
-        best.push({ date, time, count });
-      }
-    }
-    return best;
-  }
+  const handleCalendarImport = (availability: Availability) => {
+    setUserAvailability(availability);
+    toast({
+      title: "Calendar imported",
+      description: "Check the grid, then submit your availability.",
+    });
+  };
 
-  // Helper to filter responses for best slots only
-  function filterResponsesForBestOnly(responses) {
-    const best = getBestTimes();
-    if (!best.length) return {};
-    const bestKeys = new Set(best.map((slot) => `${slot.date}_${slot.time}`));
-    const filtered = {};
-    for (const [user, userResp] of Object.entries(responses)) {
-      filtered[user] = {};
-      for (const key of Object.keys(userResp)) {
-        if (bestKeys.has(key)) {
-          filtered[user][key] = userResp[key];
-        }
-      }
-    }
-    return filtered;
-  }
+  const handleSwitchUser = () => {
+    forgetName(id);
+    setUserName("");
+    setHasEnteredName(false);
+    setHasSubmitted(false);
+    setIsEditing(false);
+    resetUserAvailability({});
+  };
 
   if (!eventData && !isLoading) {
     return (
@@ -308,70 +441,107 @@ const EventPage = () => {
   }
 
   // Prepare columns for the grid
-  let gridColumns: string[] = [];
   const gridMode: "specific" | "weekly" = eventData?.mode || "specific";
-  if (gridMode === "weekly" && eventData?.days_of_week) {
-    // Map daysOfWeek numbers to day names (e.g., 1 -> 'Monday')
-    const dayNames = [
-      "Sunday",
-      "Monday",
-      "Tuesday",
-      "Wednesday",
-      "Thursday",
-      "Friday",
-      "Saturday",
-    ];
-    gridColumns = eventData?.days_of_week.map((d) => dayNames[d]) || [];
-  } else {
-    gridColumns = eventData?.dates || [];
+  const gridColumns = eventData ? getEventColumns(eventData) : [];
+  const windowOverrides = Object.entries(
+    eventData?.window_overrides || {}
+  ).filter(([column]) => gridColumns.includes(column));
+
+  // Events created before time zones were recorded are shown as-is
+  const eventTimeZone = eventData?.timezone || viewerTimeZone;
+
+  // Any whole number of slots up to the longest stretch the event offers
+  const longestDuration = Math.max(
+    slotMinutes,
+    getLongestRunMinutes(eventSlots, slotMinutes)
+  );
+  const durationOptions = Array.from(
+    { length: longestDuration / slotMinutes },
+    (_, i) => (i + 1) * slotMinutes
+  );
+  const selectedDuration =
+    meetingDuration ?? Math.min(Math.max(60, slotMinutes), longestDuration);
+  const requiredParticipants = eventData
+    ? getRequiredParticipants(requiredQuery.data || [], eventData.responses)
+    : [];
+  // Everyone's responses are on the grid unless the user is editing their own
+  const isShowingEveryone = !hasEnteredName || (hasSubmitted && !isEditing);
+  const participants = Object.keys(eventData?.responses || {});
+  const visibleResponses: Responses = {};
+  for (const participant of participants) {
+    if (!excludedParticipants.includes(participant)) {
+      visibleResponses[participant] = eventData.responses[participant];
+    }
   }
+  // The participant filter narrows both the heatmap and the best times, and
+  // "only where they overlap" makes everyone still shown required
+  const visibleRequired =
+    isShowingEveryone && isOverlapOnly
+      ? Object.keys(visibleResponses)
+      : requiredParticipants.filter((userName) => userName in visibleResponses);
+  const bestWindows = findBestWindows({
+    slots: eventSlots,
+    slotMinutes,
+    durationMinutes: selectedDuration,
+    responses: visibleResponses,
+    required: visibleRequired,
+  });
 
-  const handleAddToCalendar = () => {
-    const dayNames = [
-      "Sunday",
-      "Monday",
-      "Tuesday",
-      "Wednesday",
-      "Thursday",
-      "Friday",
-      "Saturday",
-    ];
-    const dayIndex = dayNames.indexOf(scheduledSlot.date);
-
-    // Get current date and set to next occurrence of the selected day
-    const date = new Date();
-    const daysUntilNext = (dayIndex - date.getDay() + 7) % 7;
-    date.setDate(date.getDate() + daysUntilNext);
-
-    // Set the time
-    const [hours, minutes] = scheduledSlot.time.split(":");
-    date.setHours(parseInt(hours), parseInt(minutes));
-
-    // Create end time (1 hour later)
-    const endDate = new Date(date);
-    endDate.setHours(date.getHours() + 1);
-
-    // Base URL parameters
-    const baseParams = new URLSearchParams({
-      action: "TEMPLATE",
-      text: eventData?.name || "",
-      dates: `${date.toISOString().replace(/-|:|\.\d+/g, "")}/${endDate
-        .toISOString()
-        .replace(/-|:|\.\d+/g, "")}`,
-    });
+  const getCalendarMeeting = (
+    slot: { date: string; time: string },
+    durationMinutes: number
+  ): CalendarMeeting => ({
+    uid: `${id}-${slot.date}-${slot.time}@schedmeet`,
+    title: eventData?.name || "",
+    url: `${window.location.origin}/event/${id}`,
+    mode: gridMode,
+    timeZone: eventTimeZone,
+    date: slot.date,
+    time: slot.time,
+    durationMinutes,
+    recurrence: gridMode === "weekly" ? eventData?.recurrence : null,
+    column: eventSlots.find(
+      (eventSlot) => eventSlot.key === getSlotKey(slot.date, slot.time)
+    )?.column,
+  });
 
-    // Add recurrence rule for weekly events
-    if (eventData?.mode === "weekly") {
-      baseParams.append(
-        "recur",
-        `RRULE:FREQ=WEEKLY;BYDAY=${scheduledSlot.date
-          .slice(0, 2)
-          .toUpperCase()}`
-      );
+  // Organizer-only: store (or clear) the decision on the event for everyone
+  const updateFinalSlot = async (slot: FinalSlot | null) => {
+    try {
+      await updateEvent.mutateAsync({ final_slot: slot });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error updating event",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
     }
+  };
 
-    const googleCalendarUrl = `https://calendar.google.com/calendar/render?${baseParams.toString()}`;
-    window.open(googleCalendarUrl, "_blank");
+  const handleFinalize = async () => {
+    const saved = await updateFinalSlot({
+      ...scheduledSlot,
+      duration_minutes: selectedDuration,
+    });
+    if (!saved) return;
+    setIsScheduling(false);
+    setScheduledSlot(null);
+    setIsUnlockedAfterFinal(false);
+    toast({
+      title: "Time finalized!",
+      description: "Everyone visiting the poll will see the scheduled time.",
+    });
+  };
+
+  const handleReopen = async () => {
+    const saved = await updateFinalSlot(null);
+    if (!saved) return;
+    toast({
+      title: "Poll reopened",
+      description: "Participants can update their availability again.",
+    });
   };
 
   return (
@@ -405,29 +575,65 @@ const EventPage = () => {
                 <h1 className="text-3xl font-bold text-gray-900">
                   {eventData?.name}
                 </h1>
-                <div className="flex items-center gap-4 mt-2">
-                  <Badge
-                    variant="secondary"
-                    className="flex items-center gap-1"
-                  >
-                    <Users className="w-3 h-3" />
-                    {totalParticipants} participant
-                    {totalParticipants !== 1 ? "s" : ""}
-                  </Badge>
-                </div>
+                {canSeeResults && (
+                  <div className="flex items-center gap-4 mt-2">
+                    <Badge
+                      variant="secondary"
+                      className="flex items-center gap-1"
+                    >
+                      <Users className="w-3 h-3" />
+                      {totalParticipants} participant
+                      {totalParticipants !== 1 ? "s" : ""}
+                    </Badge>
+                  </div>
+                )}
               </>
             )}
           </div>
-          <Button
-            onClick={handleShareUrl}
-            variant="outline"
-            data-testid="share-button"
-          >
-            <Share2 className="w-4 h-4 mr-2" />
-            Share
-          </Button>
+          <div className="flex items-center gap-2">
+            {adminToken && (
+              <Button
+                onClick={() => navigate(getAdminPath(id, adminToken))}
+                variant="outline"
+                data-testid="manage-event-button"
+              >
+                <Settings className="w-4 h-4 mr-2" />
+                Manage Event
+              </Button>
+            )}
+            {eventData && totalParticipants > 0 && (
+              <ExportResultsMenu
+                event={eventData}
+                responses={eventData.responses}
+                requiredParticipants={canSeeNames ? requiredParticipants : null}
+              />
+            )}
+            <Button
+              onClick={handleShareUrl}
+              variant="outline"
+              data-testid="share-button"
+            >
+              <Share2 className="w-4 h-4 mr-2" />
+              Share
+            </Button>
+          </div>
         </div>
 
+        {finalSlot && (
+          <ScheduledBanner
+            finalSlot={finalSlot}
+            mode={gridMode}
+            timeZone={eventTimeZone}
+            viewerTimeZone={viewerTimeZone}
+            isOrganizer={!!adminToken}
+            calendarMeeting={getCalendarMeeting(
+              finalSlot,
+              finalSlot.duration_minutes
+            )}
+            onReopen={handleReopen}
+          />
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
           {/* User Input */}
           <div className="lg:col-span-1 space-y-6">
@@ -435,9 +641,11 @@ const EventPage = () => {
               <CardHeader>
                 <CardTitle>Your Information</CardTitle>
                 <CardDescription>
-                  {hasEnteredName
-                    ? "Select your availability and submit"
-                    : "Enter your name to continue"}
+                  {!hasEnteredName
+                    ? "Enter your name to continue"
+                    : hasSubmitted && isEditing
+                    ? "Editing your existing response"
+                    : "Select your availability and submit"}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -461,6 +669,27 @@ const EventPage = () => {
                 <p className="text-sm text-gray-500 mt-1">
                   {userName.length}/250 characters
                 </p>
+                {hasEnteredName && (
+                  <button
+                    type="button"
+                    onClick={handleSwitchUser}
+                    className="text-sm text-blue-600 hover:underline"
+                    data-testid="switch-user-button"
+                  >
+                    Not {userName.trim()}? Use a different name
+                  </button>
+                )}
+                {editToken && (
+                  <Button
+                    variant="outline"
+                    onClick={handleCopyEditLink}
+                    className="w-full"
+                    data-testid="copy-edit-link-button"
+                  >
+                    <Lock className="w-4 h-4 mr-2" />
+                    Copy private edit link
+                  </Button>
+                )}
                 {!hasEnteredName ? (
                   <Button
                     onClick={handleNameSubmit}
@@ -477,7 +706,11 @@ const EventPage = () => {
                     disabled={isSubmitting}
                     data-testid="submit-availability-button"
                   >
-                    {isSubmitting ? "Submitting..." : "Submit Availability"}
+                    {isSubmitting
+                      ? "Submitting..."
+                      : hasSubmitted
+                      ? "Update Availability"
+                      : "Submit Availability"}
                   </Button>
                 )}
               </CardContent>
@@ -508,29 +741,46 @@ const EventPage = () => {
                   <>
                     <div>
                       <strong>Time Range:</strong>{" "}
-                      {eventData?.time_range &&
-                        format(
-                          parse(
-                            eventData.time_range.start,
-                            "HH:mm",
-                            new Date()
-                          ),
-                          "h:mm a"
-                        )}{" "}
-                      -{" "}
-                      {eventData?.time_range &&
-                        format(
-                          parse(eventData.time_range.end, "HH:mm", new Date()),
-                          "h:mm a"
-                        )}
+                      {eventData &&
+                        getEventWindows(eventData)
+                          .map(formatTimeRange)
+                          .join(", ")}
+                    </div>
+                    {windowOverrides.length > 0 && (
+                      <div>
+                        <strong>Different hours:</strong>
+                        <ul className="mt-1 text-sm text-gray-700">
+                          {windowOverrides.map(([column, windows]) => (
+                            <li key={column}>
+                              {gridMode === "weekly"
+                                ? column
+                                : formatCalendarDate(column, "MMM d")}
+                              : {windows.map(formatTimeRange).join(", ")}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <div>
+                      <strong>Slot Length:</strong> {slotMinutes} minutes
                     </div>
+                    <div>
+                      <strong>Time Zone:</strong>{" "}
+                      {formatTimeZoneLabel(eventTimeZone)}
+                    </div>
+                    {requiredParticipants.length > 0 && (
+                      <div>
+                        <strong>Required:</strong>{" "}
+                        {requiredParticipants.join(", ")}
+                      </div>
+                    )}
                     {eventData?.mode === "specific" && (
                       <div>
                         <strong>Dates:</strong>
                         <div className="flex flex-wrap gap-1 mt-1">
                           {eventData.dates.map((dateStr, index) => (
                             <Badge key={index} variant="outline">
-                              {format(new Date(dateStr), "MMM d, yyyy")}
+                              {formatCalendarDate(dateStr, "MMM d, yyyy")}
                             </Badge>
                           ))}
                         </div>
@@ -542,22 +792,28 @@ const EventPage = () => {
                         <div className="flex flex-wrap gap-1 mt-1">
                           {eventData.days_of_week?.map((day) => (
                             <Badge key={day} variant="outline">
-                              {
-                                [
-                                  "Sunday",
-                                  "Monday",
-                                  "Tuesday",
-                                  "Wednesday",
-                                  "Thursday",
-                                  "Friday",
-                                  "Saturday",
-                                ][day]
-                              }
+                              {DAY_NAMES[day]}
                             </Badge>
                           ))}
                         </div>
                       </div>
                     )}
+                    {eventData?.mode === "weekly" && eventData.recurrence && (
+                      <div>
+                        <strong>Repeats:</strong>{" "}
+                        {formatRecurrence(eventData.recurrence)}
+                      </div>
+                    )}
+                    {eventData?.privacy && eventData.privacy !== "public" && (
+                      <div>
+                        <strong>Privacy:</strong>{" "}
+                        {
+                          PRIVACY_OPTIONS.find(
+                            (option) => option.value === eventData.privacy
+                          )?.description
+                        }
+                      </div>
+                    )}
                   </>
                 )}
               </CardContent>
@@ -571,7 +827,7 @@ const EventPage = () => {
                 <CardTitle>Select Your Availability</CardTitle>
                 <CardDescription>
                   {hasEnteredName
-                    ? "Click and drag to select the times when you're available. Green areas show where more people are available."
+                    ? "Click and drag to select the times when you're available, or switch to \"If needed\" for times that work but aren't ideal. Green areas show where more people are available."
                     : "Please enter your name to select availability"}
                 </CardDescription>
               </CardHeader>
@@ -605,18 +861,56 @@ const EventPage = () => {
                       </Button>
                     )}
                     <div className="flex items-center mb-4 gap-2">
-                      <Switch
-                        id="show-best-only"
-                        checked={showBestOnly}
-                        onCheckedChange={setShowBestOnly}
-                        data-testid="show-best-only-switch"
+                      <span className="text-sm font-medium whitespace-nowrap">
+                        Show times in
+                      </span>
+                      <TimeZoneSelector
+                        value={viewerTimeZone}
+                        onChange={setViewerTimeZone}
+                        className="max-w-xs"
+                      />
+                    </div>
+                    <div className="mb-4 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium whitespace-nowrap">
+                          Best times for a
+                        </span>
+                        <Select
+                          value={String(selectedDuration)}
+                          onValueChange={(value) =>
+                            setMeetingDuration(Number(value))
+                          }
+                        >
+                          <SelectTrigger
+                            className="w-32"
+                            data-testid="meeting-duration-select"
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {durationOptions.map((minutes) => (
+                              <SelectItem key={minutes} value={String(minutes)}>
+                                {formatDuration(minutes)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <span className="text-sm font-medium">meeting</span>
+                      </div>
+                      <BestWindows
+                        windows={bestWindows}
+                        participantCount={Object.keys(visibleResponses).length}
+                        hasRequiredParticipants={visibleRequired.length > 0}
+                        durationMinutes={selectedDuration}
+                        mode={gridMode}
+                        timeZone={eventTimeZone}
+                        viewerTimeZone={viewerTimeZone}
+                        showNames={canSeeNames}
+                        onSelect={({ date, time }) => {
+                          setIsScheduling(true);
+                          setScheduledSlot({ date, time });
+                        }}
                       />
-                      <label
-                        htmlFor="show-best-only"
-                        className="text-sm font-medium cursor-pointer"
-                      >
-                        Show only best time(s)
-                      </label>
                     </div>
                     <div className="flex items-center mb-4 gap-2 justify-between w-full">
                       <Button
@@ -630,44 +924,159 @@ const EventPage = () => {
                         {isScheduling ? "Cancel Scheduling" : "Schedule Event"}
                       </Button>
                       {isScheduling && scheduledSlot && (
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-600">
+                            {formatDuration(selectedDuration)}
+                          </span>
+                          <AddToCalendarMenu
+                            meeting={getCalendarMeeting(
+                              scheduledSlot,
+                              selectedDuration
+                            )}
+                            variant="outline"
+                          />
+                          {adminToken && (
+                            <Button
+                              onClick={handleFinalize}
+                              data-testid="finalize-button"
+                            >
+                              Finalize for Everyone
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    {isGridLocked && hasEnteredName && !isScheduling && (
+                      <div className="flex items-center justify-between gap-2 mb-4 p-3 rounded-lg bg-gray-50 text-sm">
+                        <span>
+                          A time has been scheduled, so the grid is locked.
+                        </span>
                         <Button
-                          onClick={handleAddToCalendar}
-                          data-testid="add-to-calendar-button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setIsUnlockedAfterFinal(true)}
+                          data-testid="unlock-grid-button"
                         >
-                          Add to Calendar
+                          Change my availability anyway
                         </Button>
-                      )}
+                      </div>
+                    )}
+                    <div className="flex flex-col xl:flex-row gap-6">
+                      <div className="flex-1 min-w-0">
+                        {isShowingEveryone && !canSeeResults && (
+                          <p className="mb-4 p-3 rounded-lg bg-gray-50 text-sm">
+                            Results are hidden until you submit your
+                            availability.
+                          </p>
+                        )}
+                        {isShowingEveryone && canSeeResults && !canSeeNames && (
+                          <p className="mb-4 text-sm text-gray-600">
+                            Names are hidden for this event. The grid shows how
+                            many people picked each time.
+                          </p>
+                        )}
+                        {isEditingGrid && (
+                          <div className="flex flex-wrap items-center justify-end gap-2 mb-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={undoAvailability}
+                              disabled={!canUndoAvailability}
+                              title="Undo (Ctrl+Z)"
+                              data-testid="undo-button"
+                            >
+                              <Undo2 className="w-4 h-4 mr-2" />
+                              Undo
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={redoAvailability}
+                              disabled={!canRedoAvailability}
+                              title="Redo (Ctrl+Shift+Z)"
+                              data-testid="redo-button"
+                            >
+                              <Redo2 className="w-4 h-4 mr-2" />
+                              Redo
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleSelectAll}
+                              data-testid="select-all-button"
+                            >
+                              <CheckCheck className="w-4 h-4 mr-2" />
+                              Select all
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setUserAvailability({})}
+                              disabled={
+                                !Object.values(userAvailability).some(Boolean)
+                              }
+                              data-testid="clear-all-button"
+                            >
+                              <Eraser className="w-4 h-4 mr-2" />
+                              Clear all
+                            </Button>
+                            <CalendarImportDialog
+                              slots={eventSlots}
+                              mode={gridMode}
+                              timeZone={eventTimeZone}
+                              slotMinutes={slotMinutes}
+                              viewerTimeZone={viewerTimeZone}
+                              onImport={handleCalendarImport}
+                            />
+                          </div>
+                        )}
+                        <AvailabilityGrid
+                          mode={gridMode}
+                          slots={eventSlots}
+                          timeZone={eventTimeZone}
+                          viewerTimeZone={viewerTimeZone}
+                          hasSubmitted={hasSubmitted}
+                          responses={
+                            isShowingEveryone
+                              ? visibleResponses
+                              : { [userName]: userAvailability }
+                          }
+                          setIsDragging={setIsDragging}
+                          userAvailability={userAvailability}
+                          onAvailabilityChange={setUserAvailability}
+                          isReadOnly={!isEditingGrid}
+                          isScheduling={isScheduling}
+                          highlightedKeys={
+                            finalSlot
+                              ? getFinalSlotKeys(finalSlot, slotMinutes)
+                              : undefined
+                          }
+                          scheduledSlot={scheduledSlot}
+                          setScheduledSlot={setScheduledSlot}
+                          requiredParticipants={visibleRequired}
+                          changedKeys={changedKeys}
+                          focusedParticipant={
+                            isShowingEveryone ? hoveredParticipant : null
+                          }
+                          showNames={canSeeNames}
+                        />
+                      </div>
+                      {isShowingEveryone &&
+                        canSeeNames &&
+                        participants.length > 0 && (
+                          <div className="xl:w-56 shrink-0">
+                            <ParticipantFilter
+                              participants={participants}
+                              excluded={excludedParticipants}
+                              onExcludedChange={setExcludedParticipants}
+                              hoveredParticipant={hoveredParticipant}
+                              onHoveredParticipantChange={setHoveredParticipant}
+                              isOverlapOnly={isOverlapOnly}
+                              onOverlapOnlyChange={setIsOverlapOnly}
+                            />
+                          </div>
+                        )}
                     </div>
-                    <AvailabilityGrid
-                      mode={gridMode}
-                      dates={gridColumns}
-                      hasSubmitted={hasSubmitted}
-                      timeSlots={generateTimeSlots()}
-                      responses={
-                        showBestOnly
-                          ? filterResponsesForBestOnly(
-                              !hasEnteredName
-                                ? eventData?.responses || {}
-                                : hasSubmitted && !isEditing
-                                ? eventData?.responses || {}
-                                : { [userName]: userAvailability }
-                            )
-                          : !hasEnteredName
-                          ? eventData?.responses || {}
-                          : hasSubmitted && !isEditing
-                          ? eventData?.responses || {}
-                          : { [userName]: userAvailability }
-                      }
-                      setIsDragging={setIsDragging}
-                      userAvailability={userAvailability}
-                      onAvailabilityChange={setUserAvailability}
-                      isReadOnly={
-                        !hasEnteredName || (hasSubmitted && !isEditing)
-                      }
-                      isScheduling={isScheduling}
-                      scheduledSlot={scheduledSlot}
-                      setScheduledSlot={setScheduledSlot}
-                    />
                   </>
                 )}
               </CardContent>
@@ -0,0 +1,64 @@
+-- Core tables for scheduling polls.
+--
+-- Slot keys inside votes.availability look like "2025-06-02_09:30" (specific
+-- dates) or "Monday_09:30" (weekly polls) and are always expressed in the
+-- event's own time zone. Values are true, false or "if_needed".
+
+-- Supabase provides these roles; create them when running on plain Postgres
+do $$
+begin
+  if not exists (select 1 from pg_roles where rolname = 'anon') then
+    create role anon nologin;
+  end if;
+  if not exists (select 1 from pg_roles where rolname = 'authenticated') then
+    create role authenticated nologin;
+  end if;
+end
+$$;
+
+create table public.events (
+  id uuid primary key default gen_random_uuid(),
+  name text not null
+    constraint events_name_length check (char_length(name) between 1 and 250),
+  mode text not null default 'specific'
+    constraint events_mode_valid check (mode in ('specific', 'weekly')),
+  -- Specific-date polls only
+  dates date[] not null default '{}',
+  -- Weekly polls only, 0 = Sunday
+  days_of_week smallint[]
+    constraint events_days_of_week_valid
+    check (days_of_week <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  -- {"start": "09:00", "end": "17:00"}
+  time_range jsonb not null
+    constraint events_time_range_valid
+    check (time_range ? 'start' and time_range ? 'end'),
+  -- IANA zone the slot keys are expressed in; null for legacy polls
+  timezone text,
+  slot_minutes smallint
+    constraint events_slot_minutes_valid check (slot_minutes in (15, 30, 60)),
+  -- {"date": ..., "time": "HH:mm", "duration_minutes": 60} once scheduled
+  final_slot jsonb,
+  required_participants text[],
+  -- Secret that unlocks editing; never readable through the API
+  admin_token text,
+  created_at timestamptz not null default now()
+);
+
+create table public.votes (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id) on delete cascade,
+  user_name text not null
+    constraint votes_user_name_length
+    check (char_length(user_name) between 1 and 250),
+  availability jsonb not null default '{}'
+    constraint votes_availability_object
+    check (jsonb_typeof(availability) = 'object'),
+  -- SHA-256 of the participant's edit token; null once the organizer unlocks
+  -- the name
+  edit_token text,
+  created_at timestamptz not null default now(),
+  -- One response per name; also serves lookups by event_id
+  constraint votes_event_id_user_name_key unique (event_id, user_name)
+);
+
+create index events_created_at_idx on public.events (created_at);
@@ -0,0 +1,140 @@
+-- Row-level security for anonymous access through PostgREST.
+--
+-- Nobody signs in. Organizers prove themselves with the x-admin-token header
+-- and participants with the x-edit-token header, which PostgREST exposes via
+-- the request.headers setting.
+
+create or replace function public.request_header(header_name text)
+returns text
+language sql
+stable
+as $$
+  select nullif(current_setting('request.headers', true), '')::json
+    ->> header_name
+$$;
+
+create or replace function public.hash_token(token text)
+returns text
+language sql
+immutable
+as $$
+  select encode(sha256(convert_to(token, 'UTF8')), 'hex')
+$$;
+
+-- Runs as the owner so it can compare against the hidden admin_token
+create or replace function public.is_event_admin(target_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.events
+    where id = target_event_id
+      and admin_token is not null
+      and admin_token = public.request_header('x-admin-token')
+  )
+$$;
+
+-- Only hashes of edit tokens are stored, so a leaked row (e.g. through a
+-- realtime payload) can't be used to edit someone's response
+create or replace function public.hash_vote_edit_token()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.edit_token is not null
+    and (tg_op = 'INSERT' or new.edit_token is distinct from old.edit_token)
+  then
+    new.edit_token := public.hash_token(new.edit_token);
+  end if;
+  return new;
+end
+$$;
+
+create trigger votes_hash_edit_token
+  before insert or update of edit_token on public.votes
+  for each row execute function public.hash_vote_edit_token();
+
+alter table public.events enable row level security;
+alter table public.votes enable row level security;
+
+-- Column privileges keep the secrets out of every select
+revoke all on public.events, public.votes from anon, authenticated;
+
+grant select (
+  id, name, mode, dates, days_of_week, time_range, timezone, slot_minutes,
+  final_slot, required_participants, created_at
+) on public.events to anon, authenticated;
+grant insert (
+  name, mode, dates, days_of_week, time_range, timezone, slot_minutes,
+  required_participants, admin_token
+) on public.events to anon, authenticated;
+grant update (
+  name, mode, dates, days_of_week, time_range, timezone, slot_minutes,
+  final_slot, required_participants
+) on public.events to anon, authenticated;
+
+grant select (id, event_id, user_name, availability, created_at)
+  on public.votes to anon, authenticated;
+grant insert (event_id, user_name, availability, edit_token)
+  on public.votes to anon, authenticated;
+grant update (availability, edit_token) on public.votes to anon, authenticated;
+grant delete on public.votes to anon, authenticated;
+
+grant execute on function public.is_event_admin(uuid) to anon, authenticated;
+
+create policy "Events are readable by anyone with the link"
+  on public.events for select
+  using (true);
+
+create policy "Anyone can create an event"
+  on public.events for insert
+  with check (true);
+
+create policy "Organizers can edit their events"
+  on public.events for update
+  using (public.is_event_admin(id))
+  with check (public.is_event_admin(id));
+
+create policy "Responses are readable by anyone with the link"
+  on public.votes for select
+  using (true);
+
+create policy "Participants claim a name with their edit token"
+  on public.votes for insert
+  with check (
+    edit_token = public.hash_token(public.request_header('x-edit-token'))
+  );
+
+-- Unlocked names (edit_token is null) can be claimed by the next submission
+create policy "Participants edit their own response"
+  on public.votes for update
+  using (
+    edit_token is null
+    or edit_token = public.hash_token(public.request_header('x-edit-token'))
+  )
+  with check (
+    edit_token = public.hash_token(public.request_header('x-edit-token'))
+  );
+
+create policy "Organizers manage responses to their events"
+  on public.votes for update
+  using (public.is_event_admin(event_id))
+  with check (public.is_event_admin(event_id));
+
+create policy "Organizers can remove responses"
+  on public.votes for delete
+  using (public.is_event_admin(event_id));
+
+-- Live grid updates; the publication only exists on Supabase
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+  then
+    alter publication supabase_realtime add table public.votes;
+  end if;
+end
+$$;
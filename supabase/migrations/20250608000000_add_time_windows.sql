@@ -0,0 +1,23 @@
+-- Several time windows per day, optionally different on some dates.
+--
+-- time_range stays the first window so older clients still show a sensible
+-- grid.
+
+alter table public.events
+  -- [{"start": "09:00", "end": "12:00"}, {"start": "14:00", "end": "18:00"}];
+  -- null means time_range is the only window
+  add column time_windows jsonb
+    constraint events_time_windows_array
+    check (jsonb_typeof(time_windows) = 'array'),
+  -- Windows for particular columns, keyed like slot keys by date or day name:
+  -- {"2025-06-06": [{"start": "09:00", "end": "12:00"}]}
+  add column window_overrides jsonb
+    constraint events_window_overrides_object
+    check (jsonb_typeof(window_overrides) = 'object');
+
+grant select (time_windows, window_overrides)
+  on public.events to anon, authenticated;
+grant insert (time_windows, window_overrides)
+  on public.events to anon, authenticated;
+grant update (time_windows, window_overrides)
+  on public.events to anon, authenticated;
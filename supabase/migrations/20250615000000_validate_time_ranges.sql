@@ -0,0 +1,16 @@
+-- A range that ends at or before its start runs past midnight, so the only
+-- range without slots is one that starts and ends at the same time.
+--
+-- Existing rows aren't checked; the app never offered slots for them anyway.
+
+alter table public.events
+  add constraint events_time_range_not_empty
+    check (time_range ->> 'start' <> time_range ->> 'end') not valid,
+  add constraint events_time_windows_not_empty
+    check (
+      not jsonb_path_exists(time_windows, '$[*] ? (@.start == @.end)')
+    ) not valid,
+  add constraint events_window_overrides_not_empty
+    check (
+      not jsonb_path_exists(window_overrides, '$.*[*] ? (@.start == @.end)')
+    ) not valid;
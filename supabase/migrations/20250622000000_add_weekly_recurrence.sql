@@ -0,0 +1,18 @@
+-- Optional schedule for weekly polls: a date range, a repeat interval and
+-- skipped dates, used when the finalized meeting is added to a calendar.
+--
+-- {"start_date": "2025-09-01", "interval": 2, "end_date": "2025-12-19",
+--  "count": null, "excluded_dates": ["2025-11-24"]}
+
+alter table public.events
+  add column recurrence jsonb
+    constraint events_recurrence_valid
+    check (
+      jsonb_typeof(recurrence) = 'object'
+      and recurrence ? 'start_date'
+      and recurrence ? 'interval'
+    );
+
+grant select (recurrence) on public.events to anon, authenticated;
+grant insert (recurrence) on public.events to anon, authenticated;
+grant update (recurrence) on public.events to anon, authenticated;
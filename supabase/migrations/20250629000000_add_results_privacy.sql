@@ -0,0 +1,164 @@
+-- Who can see which participant picked which times. Everyone can always read
+-- their own response; the rest depends on the event's privacy setting:
+--
+--   public          names and results are visible to everyone (as before)
+--   anonymous       only counts, for everyone including the organizer
+--   organizer_only  the organizer sees names, participants only counts
+--   after_vote      results stay hidden until you've responded
+--
+-- Hidden names are replaced with pseudonyms like "Participant 3F9A2C1B" by
+-- list_event_responses, so counts and best times still work. Who must attend
+-- is read through list_required_participants under the same names.
+
+alter table public.events
+  add column privacy text not null default 'public'
+    constraint events_privacy_valid
+    check (privacy in ('public', 'anonymous', 'organizer_only', 'after_vote'));
+
+grant select (privacy) on public.events to anon, authenticated;
+grant insert (privacy) on public.events to anon, authenticated;
+grant update (privacy) on public.events to anon, authenticated;
+
+-- The organizer still writes required_participants, but reading it would
+-- reveal names the event hides
+revoke select (required_participants) on public.events from anon, authenticated;
+
+-- Whether the x-edit-token header belongs to a response to the event. Runs as
+-- the owner so it can be used from the votes policies without recursing.
+create or replace function public.has_responded(target_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.votes
+    where event_id = target_event_id
+      and edit_token = public.hash_token(public.request_header('x-edit-token'))
+  )
+$$;
+
+create or replace function public.can_see_responses(target_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select privacy from public.events where id = target_event_id)
+      <> 'after_vote',
+    false
+  )
+    or public.is_event_admin(target_event_id)
+    or public.has_responded(target_event_id)
+$$;
+
+create or replace function public.can_see_vote_names(target_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case (select privacy from public.events where id = target_event_id)
+    when 'public' then true
+    when 'organizer_only' then public.is_event_admin(target_event_id)
+    when 'after_vote' then public.can_see_responses(target_event_id)
+    else false
+  end
+$$;
+
+-- Every response the caller may see, with names hidden where the event says
+-- so. Each pseudonym comes from a hash of its own row id, so it stays the same
+-- as others respond, and rows are sorted by it so the order doesn't reveal
+-- who responded first.
+create or replace function public.list_event_responses(target_event_id uuid)
+returns table (user_name text, availability jsonb, is_required boolean)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    case
+      when public.can_see_vote_names(target_event_id) then votes.user_name
+      else 'Participant '
+        || upper(left(public.hash_token(votes.id::text), 8))
+    end,
+    votes.availability,
+    coalesce(votes.user_name = any(events.required_participants), false)
+  from public.votes
+  join public.events on events.id = votes.event_id
+  where votes.event_id = target_event_id
+    and public.can_see_responses(target_event_id)
+  order by 1
+$$;
+
+-- Must-attend people who have responded, named as list_event_responses names
+-- them
+create or replace function public.list_required_participants(
+  target_event_id uuid
+)
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select user_name
+  from public.list_event_responses(target_event_id)
+  where is_required
+$$;
+
+-- An unlocked response (edit_token is null) is hidden like any other when
+-- names are, so a plain update can't find it. The next submission under the
+-- name claims it through here instead. Returns whether there was one.
+create or replace function public.claim_unlocked_response(
+  target_event_id uuid,
+  target_user_name text,
+  new_availability jsonb
+)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with claimed as (
+    update public.votes
+    set availability = new_availability,
+      edit_token = public.request_header('x-edit-token')
+    where event_id = target_event_id
+      and user_name = target_user_name
+      and edit_token is null
+      and coalesce(public.request_header('x-edit-token'), '') <> ''
+    returning 1
+  )
+  select exists (select 1 from claimed)
+$$;
+
+grant execute on function public.has_responded(uuid) to anon, authenticated;
+grant execute on function public.can_see_responses(uuid)
+  to anon, authenticated;
+grant execute on function public.can_see_vote_names(uuid)
+  to anon, authenticated;
+grant execute on function public.list_event_responses(uuid)
+  to anon, authenticated;
+grant execute on function public.list_required_participants(uuid)
+  to anon, authenticated;
+grant execute on function public.claim_unlocked_response(uuid, text, jsonb)
+  to anon, authenticated;
+
+-- Reading the table directly now needs the names to be visible, or the row
+-- to be the caller's own. Realtime subscribers send no headers, so they only
+-- receive changes for public events.
+drop policy "Responses are readable by anyone with the link" on public.votes;
+
+create policy "Responses are readable when the event shows names"
+  on public.votes for select
+  using (
+    public.can_see_vote_names(event_id)
+    or edit_token = public.hash_token(public.request_header('x-edit-token'))
+  );
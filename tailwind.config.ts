@@ -95,12 +95,21 @@ export default {
 						opacity: '1',
 						transform: 'translateY(0)'
 					}
+				},
+				'slot-flash': {
+					'0%, 100%': {
+						boxShadow: 'inset 0 0 0 0 transparent'
+					},
+					'30%': {
+						boxShadow: 'inset 0 0 0 3px rgb(59 130 246)'
+					}
 				}
 			},
 			animation: {
 				'accordion-down': 'accordion-down 0.2s ease-out',
 				'accordion-up': 'accordion-up 0.2s ease-out',
-				'fade-in': 'fade-in 0.6s ease-out'
+				'fade-in': 'fade-in 0.6s ease-out',
+				'slot-flash': 'slot-flash 1s ease-in-out 2'
 			}
 		}
 	},